@@ -0,0 +1,80 @@
+import type { ResponseEnvelope } from "@opencall/types"
+import { reportDeprecation, type CallContext, type CallOptions } from "./call.js"
+
+/** One call in a batch */
+export interface BatchCall {
+  op: string
+  args: Record<string, unknown>
+  ctx?: CallContext
+}
+
+/**
+ * Send several calls in one `POST /call` and return one response envelope
+ * per call, in order. Each call is dispatched independently by the server,
+ * so an error in one does not fail the others. If the server rejects the
+ * batch as a whole (e.g. too many calls), every entry carries that error,
+ * addressed to its own requestId.
+ */
+export async function callBatch(
+  calls: BatchCall[],
+  options?: CallOptions,
+): Promise<ResponseEnvelope[]> {
+  // Resolve endpoint
+  let endpoint = options?.endpoint
+  if (!endpoint) {
+    const origin = (globalThis as { location?: { origin?: string } }).location?.origin
+    if (origin) {
+      endpoint = origin
+    } else {
+      throw new Error(
+        "callBatch: no endpoint provided and no global location available; supply options.endpoint",
+      )
+    }
+  }
+
+  // Resolve token
+  let resolvedToken: string | undefined
+  if (options?.token !== undefined) {
+    resolvedToken = typeof options.token === "function" ? await options.token() : options.token
+  }
+
+  // Construct request envelopes, each with a guaranteed requestId
+  const envelopes = calls.map(({ op, args, ctx }) => ({
+    op,
+    args,
+    ctx: { ...(ctx ?? {}), requestId: ctx?.requestId ?? crypto.randomUUID() },
+  }))
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  }
+  if (resolvedToken !== undefined) {
+    headers["Authorization"] = `Bearer ${resolvedToken}`
+  }
+
+  const fetchFn = options?.fetch ?? globalThis.fetch
+
+  const response = await fetchFn(`${endpoint}/call`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(envelopes),
+  })
+
+  const json = await response.json() as unknown
+
+  if (!Array.isArray(json)) {
+    // The batch was rejected as a whole; report the error against every call
+    const rejected = json as ResponseEnvelope
+    return envelopes.map(({ ctx }) => ({ ...rejected, requestId: ctx.requestId }))
+  }
+
+  if (json.length !== envelopes.length) {
+    throw new Error(
+      `callBatch: expected ${envelopes.length} response envelopes, got ${json.length}`,
+    )
+  }
+
+  const responses = json as ResponseEnvelope[]
+  responses.forEach((envelope, i) => reportDeprecation(envelopes[i]!.op, envelope, options))
+  return responses
+}
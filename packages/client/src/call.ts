@@ -1,4 +1,4 @@
-import type { ResponseEnvelope } from "@opencall/types"
+import type { DeprecationNotice, ResponseEnvelope } from "@opencall/types"
 
 export interface CallContext {
   requestId?: string
@@ -22,6 +22,32 @@ export interface CallOptions {
    * the RESPONSE envelope is currently a plain TypeScript interface with no Zod schema. We use
    * lightweight structural validation here rather than introducing a new schema dependency. */
   parseResponse?: boolean
+  /** Called when a response comes from a deprecated operation (`meta.deprecation` or a `Deprecation` header). */
+  onDeprecation?: (warning: DeprecationWarning) => void
+  /** Aborts the request. The server cancels the handler if it has not responded yet. */
+  signal?: AbortSignal
+}
+
+/** A deprecated operation the caller still uses, as passed to `onDeprecation` */
+export interface DeprecationWarning extends DeprecationNotice {
+  op: string
+  requestId: string
+}
+
+/** Report `meta.deprecation` (or, failing that, `Deprecation` / `Sunset` headers) to `onDeprecation` */
+export function reportDeprecation(
+  op: string,
+  envelope: ResponseEnvelope,
+  options?: CallOptions,
+  headers?: Headers,
+): void {
+  if (!options?.onDeprecation) return
+  let notice = envelope.meta?.deprecation as DeprecationNotice | undefined
+  if (!notice && headers?.has("Deprecation")) {
+    const sunset = headers.get("Sunset")
+    notice = sunset ? { sunset: new Date(sunset).toISOString() } : {}
+  }
+  if (notice) options.onDeprecation({ op, requestId: envelope.requestId, ...notice })
 }
 
 /** The valid ResponseState values per @opencall/types */
@@ -80,6 +106,7 @@ export async function call(
     method: "POST",
     headers,
     body: JSON.stringify(envelope),
+    ...(options?.signal && { signal: options.signal }),
   })
 
   const json = await response.json() as unknown
@@ -98,5 +125,7 @@ export async function call(
     }
   }
 
+  reportDeprecation(op, json as ResponseEnvelope, options, response.headers)
+
   return json as ResponseEnvelope
 }
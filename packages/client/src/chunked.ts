@@ -1,12 +1,7 @@
+import type { ChunkResponse } from "@opencall/types"
 import type { CallOptions } from "./call.js"
 
-export interface ChunkResponse {
-  state: "pending" | "complete" | "error"
-  chunk: { checksum: string; checksumPrevious: string | null }
-  data: string
-  cursor?: string
-  error?: { code: string; message: string; cause?: unknown }
-}
+export type { ChunkResponse }
 
 async function sha256Hex(bytes: Uint8Array): Promise<string> {
   const digest = await crypto.subtle.digest("SHA-256", bytes.buffer as ArrayBuffer)
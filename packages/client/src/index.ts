@@ -1,5 +1,8 @@
 export { call } from "./call.js"
-export type { CallContext, CallOptions } from "./call.js"
+export type { CallContext, CallOptions, DeprecationWarning } from "./call.js"
+
+export { callBatch } from "./batch.js"
+export type { BatchCall } from "./batch.js"
 
 export { callAndWait } from "./wait.js"
 export type { CallAndWaitOptions } from "./wait.js"
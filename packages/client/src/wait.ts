@@ -9,7 +9,21 @@ export interface CallAndWaitOptions extends CallOptions {
   minPollMs?: number
 }
 
-const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms))
+/** Resolve after ms, or reject with the signal's reason as soon as it aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
 
 async function resolveToken(token?: string | (() => string | Promise<string>)): Promise<string | undefined> {
   if (token === undefined) return undefined
@@ -17,6 +31,11 @@ async function resolveToken(token?: string | (() => string | Promise<string>)):
   return await token()
 }
 
+/**
+ * Call an operation and poll its `location.uri` until it reaches a terminal
+ * state. When `options.signal` aborts while polling, the server-side job is
+ * cancelled with `DELETE` on its location and the signal's reason is thrown.
+ */
 export async function callAndWait(
   op: string,
   args: Record<string, unknown>,
@@ -53,49 +72,63 @@ export async function callAndWait(
   const resolvedToken = await resolveToken(options?.token)
 
   const fetchFn = options?.fetch ?? globalThis.fetch
+  const signal = options?.signal
 
-  while (currentResponse.state === "accepted" || currentResponse.state === "pending") {
-    // Check for location.uri
-    if (!currentResponse.location?.uri) {
-      throw new Error(
-        `callAndWait: state=${currentResponse.state} but no location.uri to poll`,
-      )
-    }
-
-    // Compute next poll delay
-    const retryAfter = currentResponse.retryAfterMs ?? 1000
-    const pollDelay = Math.max(retryAfter, minPoll)
-
-    // Check if the next iteration would exceed maxWaitMs
-    if (elapsedMs + pollDelay > maxWait) {
-      throw new Error(
-        `callAndWait: maxWaitMs exceeded; last state was '${currentResponse.state}'`,
-      )
-    }
-
-    // Sleep
-    await sleep(pollDelay)
-    elapsedMs += pollDelay
+  // Build headers for the poll and cancel requests
+  const headers: Record<string, string> = {}
+  if (resolvedToken !== undefined) {
+    headers["Authorization"] = `Bearer ${resolvedToken}`
+  }
 
-    // Build headers for GET request
-    const headers: Record<string, string> = {}
-    if (resolvedToken !== undefined) {
-      headers["Authorization"] = `Bearer ${resolvedToken}`
+  try {
+    while (currentResponse.state === "accepted" || currentResponse.state === "pending") {
+      // Check for location.uri
+      if (!currentResponse.location?.uri) {
+        throw new Error(
+          `callAndWait: state=${currentResponse.state} but no location.uri to poll`,
+        )
+      }
+
+      // Compute next poll delay
+      const retryAfter = currentResponse.retryAfterMs ?? 1000
+      const pollDelay = Math.max(retryAfter, minPoll)
+
+      // Check if the next iteration would exceed maxWaitMs
+      if (elapsedMs + pollDelay > maxWait) {
+        throw new Error(
+          `callAndWait: maxWaitMs exceeded; last state was '${currentResponse.state}'`,
+        )
+      }
+
+      // Sleep
+      await sleep(pollDelay, signal)
+      elapsedMs += pollDelay
+
+      // Fetch the location URI, resolving server-relative URIs (e.g. /ops/{requestId}) against the endpoint
+      const pollUrl = new URL(currentResponse.location.uri, endpoint).toString()
+      const pollResponse = await fetchFn(pollUrl, {
+        method: "GET",
+        headers,
+        ...(signal && { signal }),
+      })
+
+      const pollJson = await pollResponse.json() as unknown
+      currentResponse = pollJson as ResponseEnvelope
+
+      // Check for terminal states
+      if (currentResponse.state === "complete" || currentResponse.state === "error") {
+        return currentResponse
+      }
     }
-
-    // Fetch the location URI
-    const pollResponse = await fetchFn(currentResponse.location.uri, {
-      method: "GET",
-      headers,
-    })
-
-    const pollJson = await pollResponse.json() as unknown
-    currentResponse = pollJson as ResponseEnvelope
-
-    // Check for terminal states
-    if (currentResponse.state === "complete" || currentResponse.state === "error") {
-      return currentResponse
+  } catch (err) {
+    if (!signal?.aborted) throw err
+    // The caller stopped waiting: cancel the server-side work, best effort
+    const uri = currentResponse.location?.uri
+    if (uri) {
+      await fetchFn(new URL(uri, endpoint).toString(), { method: "DELETE", headers })
+        .catch(() => undefined)
     }
+    throw signal.reason
   }
 
   // Shouldn't reach here, but return current response just in case
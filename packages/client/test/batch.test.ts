@@ -0,0 +1,60 @@
+import { test, expect } from "bun:test"
+import { callBatch } from "../src/batch.js"
+
+test("callBatch posts an array of envelopes and returns per-call envelopes in order", async () => {
+  let sent: { op: string; ctx: { requestId: string } }[] = []
+  const fakeFetch: typeof fetch = async (_input, init) => {
+    sent = JSON.parse(String(init!.body))
+    return new Response(
+      JSON.stringify([
+        { requestId: sent[0]!.ctx.requestId, state: "complete", result: { n: 1 } },
+        { requestId: sent[1]!.ctx.requestId, state: "error", error: { code: "OP_NOT_FOUND", message: "no" } },
+      ]),
+      { status: 200 },
+    )
+  }
+  const res = await callBatch(
+    [
+      { op: "v1:a.get", args: {}, ctx: { requestId: "first" } },
+      { op: "v1:missing", args: {} },
+    ],
+    { endpoint: "https://api.example.com", fetch: fakeFetch },
+  )
+
+  expect(sent.map((e) => e.op)).toEqual(["v1:a.get", "v1:missing"])
+  expect(sent[0]!.ctx.requestId).toBe("first")
+  expect(typeof sent[1]!.ctx.requestId).toBe("string")
+  expect(res.map((r) => r.state)).toEqual(["complete", "error"])
+  expect(res[0]!.result).toEqual({ n: 1 })
+})
+
+test("callBatch reports a batch-level rejection against every call", async () => {
+  const fakeFetch: typeof fetch = async () =>
+    new Response(
+      JSON.stringify({ requestId: "batch", state: "error", error: { code: "INVALID_ENVELOPE", message: "too many" } }),
+      { status: 400 },
+    )
+  const res = await callBatch(
+    [
+      { op: "v1:a", args: {}, ctx: { requestId: "r1" } },
+      { op: "v1:b", args: {}, ctx: { requestId: "r2" } },
+    ],
+    { endpoint: "https://api.example.com", fetch: fakeFetch },
+  )
+  expect(res.map((r) => r.requestId)).toEqual(["r1", "r2"])
+  expect(res.every((r) => r.error?.code === "INVALID_ENVELOPE")).toBe(true)
+})
+
+test("callBatch sends the bearer token", async () => {
+  let auth: string | null = null
+  const fakeFetch: typeof fetch = async (_input, init) => {
+    auth = new Headers(init!.headers).get("authorization")
+    return new Response(JSON.stringify([{ requestId: "x", state: "complete" }]), { status: 200 })
+  }
+  await callBatch([{ op: "v1:a", args: {} }], {
+    endpoint: "https://api.example.com",
+    fetch: fakeFetch,
+    token: async () => "tok",
+  })
+  expect(auth).toBe("Bearer tok")
+})
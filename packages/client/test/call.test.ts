@@ -87,3 +87,49 @@ test("parseResponse: true validates the response and rejects malformed payloads"
     }),
   ).rejects.toThrow()
 })
+
+test("call reports meta.deprecation to onDeprecation", async () => {
+  const fakeFetch: typeof fetch = async () =>
+    new Response(
+      JSON.stringify({
+        requestId: "r1",
+        state: "complete",
+        meta: { deprecation: { sunset: "2099-01-01", replacement: "v2:foo" } },
+      }),
+      { status: 200 },
+    )
+  const warnings: unknown[] = []
+  await call("v1:foo", {}, undefined, {
+    endpoint: "https://api.example.com",
+    fetch: fakeFetch,
+    onDeprecation: (w) => warnings.push(w),
+  })
+  expect(warnings).toEqual([{ op: "v1:foo", requestId: "r1", sunset: "2099-01-01", replacement: "v2:foo" }])
+})
+
+test("call falls back to the Deprecation and Sunset headers", async () => {
+  const fakeFetch: typeof fetch = async () =>
+    new Response(JSON.stringify({ requestId: "r1", state: "complete" }), {
+      status: 200,
+      headers: { Deprecation: "true", Sunset: "Thu, 01 Jan 2099 00:00:00 GMT" },
+    })
+  const warnings: unknown[] = []
+  await call("v1:foo", {}, undefined, {
+    endpoint: "https://api.example.com",
+    fetch: fakeFetch,
+    onDeprecation: (w) => warnings.push(w),
+  })
+  expect(warnings).toEqual([{ op: "v1:foo", requestId: "r1", sunset: "2099-01-01T00:00:00.000Z" }])
+})
+
+test("call does not report responses from active operations", async () => {
+  const fakeFetch: typeof fetch = async () =>
+    new Response(JSON.stringify({ requestId: "r1", state: "complete" }), { status: 200 })
+  const warnings: unknown[] = []
+  await call("v1:foo", {}, undefined, {
+    endpoint: "https://api.example.com",
+    fetch: fakeFetch,
+    onDeprecation: (w) => warnings.push(w),
+  })
+  expect(warnings).toEqual([])
+})
@@ -61,3 +61,54 @@ test("callAndWait returns terminal error state without throwing", async () => {
   expect(res.state).toBe("error")
   expect(res.error?.code).toBe("FOO")
 })
+
+test("callAndWait resolves a relative location.uri against the endpoint", async () => {
+  const polled: string[] = []
+  const fakeFetch: typeof fetch = async (input) => {
+    const url = String(input)
+    if (url.endsWith("/call")) {
+      return new Response(JSON.stringify({
+        requestId: "x", state: "accepted", location: { uri: "/ops/x" }, retryAfterMs: 1,
+      }), { status: 202 })
+    }
+    polled.push(url)
+    return new Response(JSON.stringify({ requestId: "x", state: "complete", result: 1 }), { status: 200 })
+  }
+  const res = await callAndWait("v1:foo", {}, undefined, {
+    endpoint: "https://api.example.com",
+    fetch: fakeFetch,
+    minPollMs: 1,
+  })
+  expect(res.state).toBe("complete")
+  expect(polled).toEqual(["https://api.example.com/ops/x"])
+})
+
+test("callAndWait cancels the job with DELETE when its signal aborts", async () => {
+  const requests: { method: string; url: string; auth?: string | null }[] = []
+  const fakeFetch: typeof fetch = async (input, init) => {
+    const headers = new Headers(init?.headers)
+    requests.push({ method: init?.method ?? "GET", url: String(input), auth: headers.get("Authorization") })
+    if (String(input).endsWith("/call")) {
+      return new Response(JSON.stringify({
+        requestId: "x", state: "accepted", location: { uri: "/ops/x" }, retryAfterMs: 1000,
+      }), { status: 202 })
+    }
+    return new Response(JSON.stringify({ requestId: "x", state: "error", error: { code: "CANCELLED" } }))
+  }
+
+  const controller = new AbortController()
+  const pending = callAndWait("v1:foo", {}, undefined, {
+    endpoint: "https://api.example.com",
+    fetch: fakeFetch,
+    token: "t",
+    signal: controller.signal,
+  })
+  setTimeout(() => controller.abort(new Error("stopped waiting")), 10)
+
+  await expect(pending).rejects.toThrow("stopped waiting")
+  expect(requests.map(({ method, url }) => `${method} ${url}`)).toEqual([
+    "POST https://api.example.com/call",
+    "DELETE https://api.example.com/ops/x",
+  ])
+  expect(requests[1]!.auth).toBe("Bearer t")
+})
@@ -0,0 +1,51 @@
+import type { Principal, RequestEnvelope } from "@opencall/types";
+
+export type { Principal };
+
+/** Input passed to Authenticator.authenticate() */
+export interface AuthenticateRequest {
+  /** The validated request envelope */
+  envelope: RequestEnvelope;
+  /** Incoming request headers, when dispatched over HTTP */
+  headers?: Headers;
+  /** Bearer credential from the Authorization header, or `envelope.auth.credential` */
+  credential?: string;
+}
+
+/**
+ * Resolves the caller of a request to a Principal.
+ *
+ * Return `undefined` for anonymous callers. Throw an OpenCALL error (e.g.
+ * `AuthRequiredError` with a cause describing an expired token) to reject the
+ * credential outright.
+ */
+export interface Authenticator {
+  authenticate(
+    request: AuthenticateRequest,
+  ): Principal | undefined | Promise<Principal | undefined>;
+}
+
+/** Extract the token from an `Authorization: Bearer <token>` header */
+export function bearerToken(headers?: Headers): string | undefined {
+  const header = headers?.get("authorization");
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim();
+}
+
+/**
+ * The authenticator used when none is configured: trusts `envelope.auth` as
+ * the caller identity but grants no scopes, so operations that declare
+ * `@security` scopes are rejected until a real Authenticator is supplied.
+ */
+export const envelopeAuthenticator: Authenticator = {
+  authenticate({ envelope }) {
+    if (!envelope.auth) return undefined;
+    return { sub: envelope.auth.sub, iss: envelope.auth.iss, scopes: [] };
+  },
+};
+
+/** Return the required scopes that the principal has not been granted */
+export function missingScopes(required: string[], principal: Principal): string[] {
+  const granted = new Set(principal.scopes);
+  return required.filter((scope) => !granted.has(scope));
+}
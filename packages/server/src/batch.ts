@@ -0,0 +1,52 @@
+import { InternalError } from "@opencall/types";
+import type { Dispatch, DispatchRequestContext } from "./dispatch.js";
+import { formatError, type DispatchResult } from "./validate.js";
+
+/** Default maximum number of envelopes in one batch */
+export const DEFAULT_MAX_BATCH_SIZE = 50;
+
+/**
+ * The envelopes of a batch request body — a bare array or a
+ * `{ batch: [...] }` wrapper — or undefined for a single envelope.
+ */
+export function parseBatch(rawBody: unknown): unknown[] | undefined {
+  if (Array.isArray(rawBody)) return rawBody;
+  if (typeof rawBody === "object" && rawBody !== null && !("op" in rawBody)) {
+    const batch = (rawBody as { batch?: unknown }).batch;
+    if (Array.isArray(batch)) return batch;
+  }
+  return undefined;
+}
+
+/**
+ * Dispatch each envelope of a batch independently, with its own validation,
+ * authorization and errors, running at most `concurrency` at a time.
+ * Results are returned in the order of the envelopes. Idempotency keys come
+ * only from each envelope's `ctx.idempotencyKey`, never from a header.
+ */
+export async function dispatchBatch(
+  dispatch: Dispatch,
+  items: unknown[],
+  requestCtx: DispatchRequestContext,
+  concurrency = 1,
+): Promise<DispatchResult[]> {
+  const results: DispatchResult[] = new Array(items.length);
+  const itemCtx: DispatchRequestContext = { ...requestCtx, batchItem: true };
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await dispatch(items[index], itemCtx);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        results[index] = formatError(new InternalError({ message }), crypto.randomUUID());
+      }
+    }
+  }
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
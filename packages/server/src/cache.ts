@@ -0,0 +1,153 @@
+import type { CachePolicy, RequestEnvelope } from "@opencall/types";
+import type { Principal } from "./auth.js";
+import { stableStringify } from "./hash.js";
+import type { DispatchResult } from "./validate.js";
+
+/** Storage backend for cached operation results */
+export interface ResponseCache {
+  /** Return the cached result for key, or undefined on a miss or expiry */
+  get(key: string): Promise<DispatchResult | undefined>;
+  /** Store a result for ttlSeconds, indexed under each of tags */
+  set(key: string, result: DispatchResult, options: { ttlSeconds: number; tags: string[] }): Promise<void>;
+  /** Drop every cached result stored under any of tags */
+  invalidateTags(tags: string[]): Promise<void>;
+}
+
+/** Options for createMemoryCache */
+export interface MemoryCacheOptions {
+  /** Maximum number of cached results before the least recently used is evicted (defaults to 1000) */
+  maxEntries?: number;
+}
+
+interface MemoryCacheEntry {
+  result: DispatchResult;
+  tags: string[];
+  expiresAt: number;
+}
+
+/** In-memory LRU ResponseCache with tag-based invalidation */
+export function createMemoryCache(options?: MemoryCacheOptions): ResponseCache {
+  const maxEntries = options?.maxEntries ?? 1000;
+  const entries = new Map<string, MemoryCacheEntry>();
+  const tagIndex = new Map<string, Set<string>>();
+
+  function remove(key: string): void {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    for (const tag of entry.tags) tagIndex.get(tag)?.delete(key);
+  }
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return undefined;
+      }
+      // Re-insert to mark as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.result;
+    },
+
+    async set(key, result, { ttlSeconds, tags }) {
+      remove(key);
+      entries.set(key, { result, tags, expiresAt: Date.now() + ttlSeconds * 1000 });
+      for (const tag of tags) {
+        let keys = tagIndex.get(tag);
+        if (!keys) tagIndex.set(tag, (keys = new Set()));
+        keys.add(key);
+      }
+      while (entries.size > maxEntries) {
+        remove(entries.keys().next().value!);
+      }
+    },
+
+    async invalidateTags(tags) {
+      for (const tag of tags) {
+        for (const key of [...(tagIndex.get(tag) ?? [])]) remove(key);
+        tagIndex.delete(tag);
+      }
+    },
+  };
+}
+
+function resolvePath(root: Record<string, unknown>, path: string): unknown {
+  let value: unknown = root;
+  for (const segment of path.split(".")) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Compute the cache key for a call, or undefined when the call must not be
+ * served from cache.
+ *
+ * The key always covers the operation and its full arguments; each `vary`
+ * path (`args.*`, `ctx.*`, `auth.*`) adds a further dimension. `private`
+ * scope always varies on `auth.sub` and `tenant` scope on the principal's
+ * `tenant` claim (falling back to `auth.iss`); both are uncacheable for
+ * anonymous callers. The dispatcher also skips both scopes when its
+ * authenticator is the default envelopeAuthenticator, whose principal is
+ * unverified.
+ */
+export function computeCacheKey(
+  policy: CachePolicy,
+  envelope: RequestEnvelope,
+  principal?: Principal,
+): string | undefined {
+  const root = { args: envelope.args, ctx: envelope.ctx ?? {}, auth: principal ?? {} };
+  const dimensions: Record<string, unknown> = {};
+
+  if (policy.scope === "private") {
+    if (!principal) return undefined;
+    dimensions["auth.sub"] = principal.sub;
+  } else if (policy.scope === "tenant") {
+    if (!principal) return undefined;
+    dimensions["tenant"] = principal.claims?.["tenant"] ?? principal.iss;
+  }
+
+  for (const path of policy.vary ?? []) {
+    dimensions[path] = resolvePath(root, path);
+  }
+
+  return stableStringify([envelope.op, envelope.args, dimensions]);
+}
+
+/**
+ * Serve a call from cache, or run it and cache a `complete` 200 result for
+ * the policy's `ttl` under its `tags`. Hits are re-addressed to the current
+ * requestId/sessionId and marked with `meta.cacheHit: true`.
+ */
+export async function runCached(
+  cache: ResponseCache,
+  key: string,
+  policy: CachePolicy,
+  requestId: string,
+  sessionId: string | undefined,
+  run: () => Promise<DispatchResult>,
+): Promise<DispatchResult> {
+  const cached = await cache.get(key);
+  if (cached) {
+    const { sessionId: _cachedSessionId, ...body } = cached.body;
+    return {
+      ...cached,
+      body: {
+        ...body,
+        requestId,
+        ...(sessionId !== undefined && { sessionId }),
+        meta: { ...body.meta, cacheHit: true },
+      },
+    };
+  }
+
+  const result = await run();
+  if (result.status === 200 && result.body.state === "complete") {
+    await cache.set(key, result, { ttlSeconds: policy.ttl ?? 0, tags: policy.tags ?? [] });
+  }
+  return result;
+}
@@ -0,0 +1,75 @@
+import { OperationTimeoutError } from "@opencall/types";
+
+/**
+ * Handlers running in this process, by requestId, so that a background job
+ * can be cancelled with DELETE /ops/{requestId}
+ */
+export interface CancellationRegistry {
+  /**
+   * Track a running call; returns a function that stops tracking it. A
+   * requestId already tracked keeps its first call.
+   */
+  register(requestId: string, controller: AbortController): () => void;
+  /** Abort the running call with `reason`; false if no such call is running here */
+  cancel(requestId: string, reason: unknown): boolean;
+}
+
+/** In-memory CancellationRegistry; calls are only cancellable on the instance running them */
+export function createCancellationRegistry(): CancellationRegistry {
+  const running = new Map<string, AbortController>();
+
+  return {
+    register(requestId, controller) {
+      if (!running.has(requestId)) running.set(requestId, controller);
+      return () => {
+        if (running.get(requestId) === controller) running.delete(requestId);
+      };
+    },
+
+    cancel(requestId, reason) {
+      const controller = running.get(requestId);
+      if (!controller) return false;
+      controller.abort(reason);
+      return true;
+    },
+  };
+}
+
+/**
+ * Run a handler under `controller`: abort it with OPERATION_TIMEOUT once
+ * `deadline` passes, and settle as soon as the signal aborts — rejecting
+ * with the abort reason — rather than waiting for a handler that ignores
+ * its signal. The call is registered with `cancellations` while it runs.
+ */
+export async function runCancellable<T>(
+  controller: AbortController,
+  call: { op: string; requestId: string; deadline?: number; timeoutMs?: number },
+  cancellations: CancellationRegistry | undefined,
+  run: () => Promise<T>,
+): Promise<T> {
+  const { signal } = controller;
+  if (signal.aborted) throw signal.reason;
+
+  const timer =
+    call.deadline !== undefined
+      ? setTimeout(
+          () => controller.abort(new OperationTimeoutError({ op: call.op, timeoutMs: call.timeoutMs })),
+          Math.max(0, call.deadline - Date.now()),
+        )
+      : undefined;
+  const unregister = cancellations?.register(call.requestId, controller);
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([run(), aborted]);
+  } finally {
+    clearTimeout(timer);
+    unregister?.();
+    signal.removeEventListener("abort", onAbort!);
+  }
+}
@@ -0,0 +1,210 @@
+import type { ChunkResponse } from "@opencall/types";
+import { sha256Hex } from "./hash.js";
+
+/** Default chunk size: 64 KiB */
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/** Bytes a handler can return as a chunked result */
+export type ChunkSource =
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/** A stored chunk: base64 data plus its link in the sha256 chain */
+export interface StoredChunk {
+  data: string;
+  checksum: string;
+  checksumPrevious: string | null;
+}
+
+/** A chunked operation result, retrievable at /ops/{requestId}/chunks */
+export interface ChunkSet {
+  requestId: string;
+  op: string;
+  /** Subject of the principal that produced the result */
+  subject?: string;
+  chunks: StoredChunk[];
+  /** Epoch milliseconds after which the set may be discarded */
+  expiresAt: number;
+}
+
+/** Storage for chunked operation results */
+export interface ChunkStore {
+  /** Store a chunk set; false if an unexpired set for the same requestId exists */
+  put(set: ChunkSet): Promise<boolean>;
+  /** Look up a chunk set, or undefined if unknown or expired */
+  get(requestId: string): Promise<ChunkSet | undefined>;
+}
+
+/** In-memory ChunkStore for single-instance services and tests */
+export function createMemoryChunkStore(): ChunkStore {
+  const sets = new Map<string, ChunkSet>();
+
+  return {
+    async put(set) {
+      const existing = sets.get(set.requestId);
+      if (existing && existing.expiresAt > Date.now()) return false;
+      sets.set(set.requestId, set);
+      return true;
+    },
+
+    async get(requestId) {
+      const set = sets.get(requestId);
+      if (set && set.expiresAt <= Date.now()) {
+        sets.delete(requestId);
+        return undefined;
+      }
+      return set;
+    },
+  };
+}
+
+/**
+ * A handler result to be served in chunks. Return it as `result` from a
+ * handler and the dispatcher splits it, stores the chain and responds with
+ * a `location` of /ops/{requestId}/chunks:
+ *
+ * ```
+ * return { state: "complete", result: chunked(file.stream(), { chunkSize: 256 * 1024 }) }
+ * ```
+ */
+export class ChunkedResult {
+  constructor(
+    readonly source: ChunkSource,
+    readonly chunkSize: number = DEFAULT_CHUNK_SIZE,
+  ) {
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new Error(`chunked: chunkSize must be a positive integer, got ${chunkSize}`);
+    }
+  }
+}
+
+/** Wrap bytes as a ChunkedResult */
+export function chunked(source: ChunkSource, options?: { chunkSize?: number }): ChunkedResult {
+  return new ChunkedResult(source, options?.chunkSize);
+}
+
+async function* iterate(source: ChunkSource): AsyncIterable<Uint8Array> {
+  if (source instanceof Uint8Array) {
+    yield source;
+    return;
+  }
+  if (source instanceof ReadableStream) {
+    const reader = source.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  yield* source as AsyncIterable<Uint8Array>;
+}
+
+/**
+ * Re-slice a byte stream into chunkSize pieces (the last may be shorter).
+ * Whole chunks are sliced straight out of each piece; only a chunk spanning
+ * pieces is assembled in `partial`, so every byte is copied at most twice.
+ */
+async function* rechunk(source: ChunkSource, chunkSize: number): AsyncIterable<Uint8Array> {
+  const partial = new Uint8Array(chunkSize);
+  let filled = 0;
+  for await (const piece of iterate(source)) {
+    let offset = 0;
+    if (filled > 0) {
+      const take = Math.min(chunkSize - filled, piece.length);
+      partial.set(piece.subarray(0, take), filled);
+      filled += take;
+      offset = take;
+      if (filled < chunkSize) continue;
+      yield partial.slice();
+      filled = 0;
+    }
+    for (; piece.length - offset >= chunkSize; offset += chunkSize) {
+      yield piece.slice(offset, offset + chunkSize);
+    }
+    partial.set(piece.subarray(offset), 0);
+    filled = piece.length - offset;
+  }
+  if (filled > 0) yield partial.slice(0, filled);
+}
+
+/**
+ * Split a ChunkedResult into base64 chunks linked by a `sha256:` checksum
+ * chain: each chunk's `checksumPrevious` is the preceding chunk's `checksum`
+ * (null for the first). An empty source yields a single empty chunk.
+ */
+export async function buildChunks(result: ChunkedResult): Promise<StoredChunk[]> {
+  const chunks: StoredChunk[] = [];
+  let previous: string | null = null;
+
+  for await (const bytes of rechunk(result.source, result.chunkSize)) {
+    const checksum = `sha256:${await sha256Hex(bytes)}`;
+    chunks.push({
+      data: Buffer.from(bytes).toString("base64"),
+      checksum,
+      checksumPrevious: previous,
+    });
+    previous = checksum;
+  }
+
+  if (chunks.length === 0) {
+    chunks.push({
+      data: "",
+      checksum: `sha256:${await sha256Hex(new Uint8Array(0))}`,
+      checksumPrevious: null,
+    });
+  }
+  return chunks;
+}
+
+/** The location of a chunked result */
+export function chunksLocation(requestId: string): string {
+  return `/ops/${encodeURIComponent(requestId)}/chunks`;
+}
+
+function encodeCursor(index: number): string {
+  return Buffer.from(`chunk:${index}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): number | undefined {
+  const match = Buffer.from(cursor, "base64url").toString().match(/^chunk:(\d+)$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Format the chunk addressed by `cursor` (the first chunk when absent) as
+ * the ChunkResponse expected by the client's retrieveChunked().
+ */
+export function formatChunk(
+  chunks: StoredChunk[],
+  cursor: string | null,
+): { status: number; body: ChunkResponse } {
+  const index = cursor === null ? 0 : decodeCursor(cursor);
+  const chunk = index === undefined ? undefined : chunks[index];
+  if (index === undefined || !chunk) {
+    return {
+      status: 400,
+      body: {
+        state: "error",
+        chunk: { checksum: "", checksumPrevious: null },
+        data: "",
+        error: { code: "INVALID_CURSOR", message: "Unknown or malformed chunk cursor" },
+      },
+    };
+  }
+
+  const last = index === chunks.length - 1;
+  return {
+    status: 200,
+    body: {
+      state: last ? "complete" : "pending",
+      chunk: { checksum: chunk.checksum, checksumPrevious: chunk.checksumPrevious },
+      data: chunk.data,
+      ...(!last && { cursor: encodeCursor(index + 1) }),
+    },
+  };
+}
@@ -6,6 +6,7 @@
  *   opencall-generate-error-catalog --ops dist/operations --out public/.well-known/errors
  *   opencall-generate-error-catalog --ops "dist/operations/*.js"
  *   opencall-generate-error-catalog --ops dist/operations --out public/.well-known/errors --check
+ *   opencall-generate-error-catalog --ops dist/operations --messages
  */
 
 import {
@@ -25,11 +26,12 @@ interface CliArgs {
   out?: string;
   ext: string;
   check: boolean;
+  messages: boolean;
 }
 
 function parseArgs(): CliArgs {
   const args = process.argv.slice(2);
-  const parsed: Partial<CliArgs> = { ext: ".js", check: false };
+  const parsed: Partial<CliArgs> = { ext: ".js", check: false, messages: false };
 
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
@@ -45,9 +47,12 @@ function parseArgs(): CliArgs {
       case "--check":
         parsed.check = true;
         break;
+      case "--messages":
+        parsed.messages = true;
+        break;
       case "--help":
       case "-h":
-        console.log(`Usage: opencall-generate-error-catalog --ops <dir|glob> [--out <file>] [--check]
+        console.log(`Usage: opencall-generate-error-catalog --ops <dir|glob> [--out <file>] [--check] [--messages]
 
 Imports operation modules, discovers OpenCALL error classes, and emits the
 /.well-known/errors JSON shape. If --out is omitted, JSON is written to stdout.
@@ -56,7 +61,8 @@ Options:
   --ops <dir|glob>  Directory or one-star glob of operation modules (required)
   --out <file>      Output JSON file path. Omit to write JSON to stdout.
   --ext <ext>       File extension when --ops is a directory (default: .js)
-  --check           Verify the output file is up to date without writing it.`);
+  --check           Verify the output file is up to date without writing it.
+  --messages        Include each error's translated messages by language tag.`);
         process.exit(0);
     }
   }
@@ -71,6 +77,7 @@ Options:
     out: parsed.out,
     ext: parsed.ext ?? ".js",
     check: parsed.check ?? false,
+    messages: parsed.messages ?? false,
   };
 }
 
@@ -127,7 +134,7 @@ async function importModules(files: string[]): Promise<Record<string, unknown>[]
 }
 
 async function main() {
-  const { ops, out, ext, check } = parseArgs();
+  const { ops, out, ext, check, messages } = parseArgs();
   const files = resolveModuleFiles(ops, ext);
 
   if (files.length === 0) {
@@ -136,7 +143,7 @@ async function main() {
   }
 
   const modules = await importModules(files);
-  const content = `${JSON.stringify(buildErrorCatalogFromModules(modules), null, 2)}\n`;
+  const content = `${JSON.stringify(buildErrorCatalogFromModules(modules, { messages }), null, 2)}\n`;
 
   if (!out) {
     if (check) {
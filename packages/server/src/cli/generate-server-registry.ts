@@ -15,6 +15,7 @@
 import { readFileSync, readdirSync, existsSync, mkdirSync, writeFileSync } from "node:fs";
 import { join, relative, dirname, extname, basename } from "node:path";
 import { parseJSDoc } from "../jsdoc.js";
+import { parseRateLimit } from "../ratelimit.js";
 
 interface CliArgs {
   opsDir: string;
@@ -107,6 +108,12 @@ function tagsToMetaLines(tags: Record<string, string>): string[] {
     if (tags.cacheTags) lines.push(`cacheTags: ${JSON.stringify(tags.cacheTags)}`);
   }
 
+  const rateLimit = parseRateLimit(tags.rateLimit);
+  if (rateLimit) lines.push(`rateLimit: ${JSON.stringify(rateLimit)}`);
+
+  const errors = tags.errors?.split(/[,\s]+/).filter(Boolean) ?? [];
+  if (errors.length > 0) lines.push(`errors: ${JSON.stringify(errors)}`);
+
   if (tags.flags) lines.push(`flags: ${JSON.stringify(tags.flags)}`);
   if (tags.sunset) lines.push(`sunset: ${JSON.stringify(tags.sunset)}`);
   if (tags.replacement) lines.push(`replacement: ${JSON.stringify(tags.replacement)}`);
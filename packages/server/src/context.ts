@@ -0,0 +1,47 @@
+import type { HandlerContext, Logger, Principal, RequestEnvelope } from "@opencall/types";
+import { bindLogger, silentLogger } from "./logging.js";
+import type { MediaFiles } from "./media.js";
+
+/** Inputs to createHandlerContext beyond the envelope itself */
+export interface HandlerContextInit {
+  envelope: RequestEnvelope;
+  requestId: string;
+  principal?: Principal;
+  idempotencyKey?: string;
+  /** The dispatcher span's trace context; defaults to the envelope's `ctx.traceparent` */
+  traceparent?: string;
+  deadline?: number;
+  /** Defaults to a signal that never aborts */
+  signal?: AbortSignal;
+  /** Bound to the op and requestId; defaults to a logger that discards records */
+  logger?: Logger;
+  media?: MediaFiles;
+}
+
+/**
+ * Build the HandlerContext passed to a handler as its second argument, from
+ * the envelope's `ctx` and what the pipeline resolved for the call.
+ *
+ * ```
+ * const ctx = createHandlerContext({ envelope, requestId, principal })
+ * const result = await safeHandlerCall(operation.handler, [argsResult.data, ctx], requestId)
+ * ```
+ */
+export function createHandlerContext(init: HandlerContextInit): HandlerContext {
+  const { envelope, requestId } = init;
+  const ctx = envelope.ctx;
+  const traceparent = init.traceparent ?? ctx?.traceparent;
+  return {
+    requestId,
+    ...(ctx?.sessionId !== undefined && { sessionId: ctx.sessionId }),
+    ...(ctx?.parentId !== undefined && { parentId: ctx.parentId }),
+    ...(ctx?.locale !== undefined && { locale: ctx.locale }),
+    ...(traceparent !== undefined && { traceparent }),
+    ...(init.principal && { principal: init.principal }),
+    ...(init.idempotencyKey !== undefined && { idempotencyKey: init.idempotencyKey }),
+    ...(init.deadline !== undefined && { deadline: init.deadline }),
+    signal: init.signal ?? new AbortController().signal,
+    logger: init.logger ? bindLogger(init.logger, { op: envelope.op, requestId }) : silentLogger,
+    media: init.media ?? {},
+  };
+}
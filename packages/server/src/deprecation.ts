@@ -0,0 +1,92 @@
+import type { DeprecationNotice, OperationModule, RegistryEntry } from "@opencall/types";
+import type { DispatchResult } from "./validate.js";
+
+/** A call to a deprecated operation, as passed to `onDeprecatedCall` */
+export interface DeprecatedCall extends DeprecationNotice {
+  op: string;
+  requestId: string;
+  /** The caller's principal `sub`, when authenticated */
+  subject?: string;
+}
+
+/** Per-(op, subject) call counts for deprecated operations */
+export interface DeprecatedUsage {
+  op: string;
+  subject?: string;
+  count: number;
+  /** Epoch milliseconds of the most recent call */
+  lastCalledAt: number;
+}
+
+/** Counts calls to deprecated operations by subject, to find lingering callers before removal */
+export interface DeprecationTracker {
+  /** Record a call; pass as the dispatcher's `onDeprecatedCall` */
+  record(call: DeprecatedCall): void;
+  /** Usage of every deprecated operation, or of `op`, most called first */
+  usage(op?: string): DeprecatedUsage[];
+}
+
+/**
+ * The deprecation notice for an operation flagged `deprecated` in the
+ * registry or carrying a `sunset` date, or undefined for active operations.
+ */
+export function deprecationNotice(
+  operation: OperationModule,
+  entry: RegistryEntry | undefined,
+): DeprecationNotice | undefined {
+  const sunset = entry?.sunset ?? operation.sunset;
+  const replacement = entry?.replacement ?? operation.replacement;
+  if (!entry?.deprecated && sunset === undefined) return undefined;
+  return {
+    ...(sunset !== undefined && { sunset }),
+    ...(replacement !== undefined && { replacement }),
+  };
+}
+
+/**
+ * Signal a deprecation on a response: `meta.deprecation` in the body, a
+ * `Deprecation: true` header and, with a sunset date, a `Sunset` header
+ * (RFC 8594).
+ */
+export function withDeprecation(result: DispatchResult, notice: DeprecationNotice): DispatchResult {
+  const sunset = notice.sunset !== undefined ? new Date(notice.sunset) : undefined;
+  return {
+    ...result,
+    headers: {
+      ...result.headers,
+      Deprecation: "true",
+      ...(sunset && !Number.isNaN(sunset.getTime()) && { Sunset: sunset.toUTCString() }),
+    },
+    body: { ...result.body, meta: { ...result.body.meta, deprecation: notice } },
+  };
+}
+
+/** In-memory DeprecationTracker */
+export function createDeprecationTracker(): DeprecationTracker {
+  const counts = new Map<string, DeprecatedUsage>();
+
+  return {
+    record({ op, subject }) {
+      const key = JSON.stringify([op, subject ?? null]);
+      const usage = counts.get(key);
+      if (usage) {
+        usage.count++;
+        usage.lastCalledAt = Date.now();
+      } else {
+        counts.set(key, {
+          op,
+          ...(subject !== undefined && { subject }),
+          count: 1,
+          lastCalledAt: Date.now(),
+        });
+      }
+    },
+
+    usage(op) {
+      return [...counts.values()]
+        .filter((usage) => op === undefined || usage.op === op)
+        .map((usage) => ({ ...usage }))
+        .sort((a, b) => b.count - a.count);
+    },
+  };
+}
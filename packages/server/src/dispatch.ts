@@ -0,0 +1,595 @@
+import {
+  AuthRequiredError,
+  CancelledError,
+  ForbiddenError,
+  IdempotencyKeyRequiredError,
+  InternalError,
+  OpNotFoundError,
+  RateLimitedError,
+  RequestIdConflictError,
+  isOpenCallError,
+  type HandlerContext,
+  type OpenCallErrorInstance,
+  type OperationModule,
+  type RegistryEntry,
+  type RegistryResponse,
+  type RequestEnvelope,
+} from "@opencall/types";
+import {
+  bearerToken,
+  envelopeAuthenticator,
+  missingScopes,
+  type Authenticator,
+  type Principal,
+} from "./auth.js";
+import { runCancellable, type CancellationRegistry } from "./cancel.js";
+import { createHandlerContext } from "./context.js";
+import { computeCacheKey, runCached, type ResponseCache } from "./cache.js";
+import { deprecationNotice, withDeprecation, type DeprecatedCall } from "./deprecation.js";
+import { ChunkedResult, buildChunks, chunksLocation, type ChunkStore } from "./chunks.js";
+import { DEFAULT_JOB_TTL_SECONDS, acceptJob, type JobStore } from "./jobs.js";
+import { resolveMedia } from "./media.js";
+import { createMemoryRateLimitStore, rateLimitKey, type RateLimitStore } from "./ratelimit.js";
+import { openStream, type StreamSessionManager } from "./streams.js";
+import { runWithSyncPolicy } from "./sync.js";
+import { formatTraceparent, runTraced, type Tracer } from "./tracing.js";
+import { logCall, logHandlerError, writeLog, type Logger } from "./logging.js";
+import {
+  DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+  extractIdempotencyKey,
+  runIdempotent,
+  type IdempotencyStore,
+} from "./idempotency.js";
+import {
+  checkSunset,
+  formatError,
+  safeHandlerCall,
+  validateArgs,
+  validateEnvelope,
+  validateResult,
+  type DispatchResult,
+} from "./validate.js";
+
+/** How the dispatcher checks handler results against the operation's result schema */
+export type ResultValidationMode = "off" | "warn" | "enforce";
+
+/** How the dispatcher checks errors thrown by handlers against the operation's declared `errors` */
+export type ErrorValidationMode = "off" | "warn" | "enforce";
+
+/** Options for createDispatcher */
+export interface DispatcherOptions {
+  /** Map of operation name to its resolved module, as returned by buildRegistry() */
+  modules: Map<string, OperationModule>;
+  /** The registry response; supplies per-operation policies such as `authScopes` */
+  registry?: RegistryResponse;
+  /** Resolves the caller to a Principal. Defaults to envelopeAuthenticator. */
+  authenticator?: Authenticator;
+  /** Deduplicates calls to operations with an IdempotencyPolicy. Without a store, keys are only checked for presence. */
+  idempotency?: IdempotencyStore;
+  /** Token buckets for operations with a `@rateLimit` policy (defaults to an in-memory store) */
+  rateLimits?: RateLimitStore;
+  /** Caches results of operations with an enabled CachePolicy. Invalidate with `cache.invalidateTags()`. */
+  cache?: ResponseCache;
+  /**
+   * Stores background jobs: `@execution async` operations and sync operations
+   * escalated past `maxMs`. Serve their status with createFetchHandler.
+   */
+  jobs?: JobStore;
+  /**
+   * Tracks running handlers so background jobs can be cancelled with
+   * DELETE /ops/{requestId}; createFetchHandler supplies one by default
+   */
+  cancellations?: CancellationRegistry;
+  /**
+   * Stores results returned as `chunked(...)`, served at /ops/{requestId}/chunks
+   * by createFetchHandler. Without a store, chunked results fail with 500.
+   */
+  chunks?: ChunkStore;
+  /**
+   * Holds stream sessions for handlers returning `frames`, served at
+   * /streams/{sessionId} over SSE by createFetchHandler or over WebSocket by
+   * createWebSocketTransport. Without it, such results fail with 500.
+   */
+  streams?: StreamSessionManager;
+  /**
+   * Check `complete` results against the operation's `result` schema (default "off").
+   * "warn" logs the schema issues to the `logger` (console.warn without one);
+   * "enforce" returns 500 INTERNAL_ERROR with the issues in `cause`. Either
+   * way a valid result is returned as parsed, with unknown keys stripped.
+   */
+  validateResults?: ResultValidationMode;
+  /**
+   * Check OpenCALL errors thrown by handlers against the codes the operation
+   * declares in its registry `errors` (default "off"). "warn" logs undeclared
+   * codes to the `logger` (console.warn without one) and returns the error;
+   * "enforce" returns 500 INTERNAL_ERROR with the code in `cause`. Operations
+   * declaring no errors are not checked.
+   */
+  validateErrors?: ErrorValidationMode;
+  /**
+   * Traces each call with a span named by the operation's TelemetryPolicy
+   * `spanName`, continuing the caller's `ctx.traceparent`. Handlers receive
+   * the span's context as `ctx.traceparent`.
+   */
+  tracer?: Tracer;
+  /**
+   * Receives one `opencall.call` access record per call, and an
+   * `opencall.error` record (via `toLog()`) for each error thrown by a handler.
+   * Sensitive arguments and `auth.credential` are redacted.
+   */
+  logger?: Logger;
+  /**
+   * Called for every call to a deprecated operation, with the caller's
+   * subject; pass `createDeprecationTracker().record` to count lingering callers
+   */
+  onDeprecatedCall?: (call: DeprecatedCall) => void;
+}
+
+/** Transport-level details of the HTTP request carrying the envelope */
+export interface DispatchRequestContext {
+  /** Incoming request headers */
+  headers?: Headers;
+  /** Uploaded multipart parts by field name, referenced by `media[].part` */
+  parts?: Map<string, Blob>;
+  /** Aborted when the caller disconnects; cancels the handler unless it already runs as a job */
+  signal?: AbortSignal;
+  /**
+   * Set by dispatchBatch for each envelope of a batch. The request's headers
+   * are shared by every item, so an idempotency key header is ignored and
+   * only the envelope's own `ctx.idempotencyKey` applies.
+   */
+  batchItem?: boolean;
+}
+
+/** Dispatch a raw request body through the full OpenCALL pipeline */
+export type Dispatch = (
+  rawBody: unknown,
+  requestCtx?: DispatchRequestContext,
+) => Promise<DispatchResult>;
+
+/**
+ * Resolve the caller through the authenticator and enforce `requiresAuth`
+ * and the operation's `authScopes` against the resulting principal.
+ */
+async function authorize(
+  authenticator: Authenticator,
+  envelope: RequestEnvelope,
+  requestCtx: DispatchRequestContext,
+  requiresAuth: boolean,
+  requiredScopes: string[],
+): Promise<
+  | { ok: true; principal: Principal | undefined }
+  | { ok: false; error: OpenCallErrorInstance }
+> {
+  let principal: Principal | undefined;
+  try {
+    principal = await authenticator.authenticate({
+      envelope,
+      headers: requestCtx.headers,
+      credential: bearerToken(requestCtx.headers) ?? envelope.auth?.credential,
+    });
+  } catch (err) {
+    if (isOpenCallError(err)) return { ok: false, error: err };
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, error: new InternalError({ message }) };
+  }
+
+  if (!requiresAuth && requiredScopes.length === 0) return { ok: true, principal };
+
+  if (!principal) {
+    return { ok: false, error: new AuthRequiredError({ op: envelope.op }) };
+  }
+
+  const missing = missingScopes(requiredScopes, principal);
+  if (missing.length > 0) {
+    return {
+      ok: false,
+      error: new ForbiddenError({ op: envelope.op, requiredScopes, missingScopes: missing }),
+    };
+  }
+
+  return { ok: true, principal };
+}
+
+/**
+ * Create a dispatcher that applies every step of the OpenCALL request
+ * pipeline consistently:
+ *
+ * 1. `validateEnvelope` — 400 INVALID_ENVELOPE on a malformed body
+ * 2. operation lookup — 404 OP_NOT_FOUND for unknown operations
+ * 3. `checkSunset` — 410 OP_REMOVED once the sunset date has passed
+ * 4. authentication — 401 AUTH_REQUIRED when `requiresAuth` or `authScopes`
+ *    are set and the authenticator resolves no principal; 403 FORBIDDEN with
+ *    the missing scopes in `cause` when the principal lacks any `authScopes`;
+ *    rate limiting — 429 RATE_LIMITED with `retryAfterMs` (and `Retry-After`)
+ *    once the caller exhausts the operation's `@rateLimit` token bucket
+ * 5. `validateArgs` — 400 SCHEMA_VALIDATION_FAILED on invalid arguments;
+ *    `resolveMedia` — 400 MEDIA_REQUIRED, 415 UNSUPPORTED_MEDIA_TYPE or
+ *    413 MEDIA_TOO_LARGE when `media` violates the operation's `mediaSchema`
+ * 6. idempotency — 400 IDEMPOTENCY_KEY_REQUIRED when the policy requires a
+ *    key; with an `idempotency` store, replays the first result per key
+ * 7. caching — with a `cache`, serves non-side-effecting operations with an
+ *    enabled CachePolicy from cache (`meta.cacheHit: true`)
+ * 8. `safeHandlerCall` — invoke the handler and map thrown errors, racing
+ *    sync operations against their SyncPolicy (`maxMs` / `ctx.timeoutMs`).
+ *    With a `jobs` store, async operations run as background jobs and the
+ *    caller gets 202 `accepted` with a `location` of /ops/{requestId}.
+ *    With a `chunks` store, a `chunked(...)` result is split and stored, and
+ *    the caller gets 303 with a `location` of /ops/{requestId}/chunks.
+ *    With a `streams` manager, a `streaming` result with `frames` opens a
+ *    session and the caller gets 202 `streaming` with its descriptor.
+ *    With `validateResults`, `complete` results are checked against the
+ *    operation's `result` schema, and with `validateErrors`, thrown OpenCALL
+ *    errors against the operation's declared `errors`
+ *
+ * Each handler gets an AbortSignal that aborts — and the call settles — with
+ * 504 OPERATION_TIMEOUT at its deadline (the smaller of `ctx.timeoutMs` and
+ * the SyncPolicy's `maxMs`; escalating operations keep running as jobs), or
+ * with 499 CANCELLED when the request's `signal` aborts before a response or
+ * the job is cancelled through `cancellations`.
+ *
+ * Handlers are called with the parsed arguments and a HandlerContext built
+ * from the envelope's `ctx`: the principal, idempotency key, deadline,
+ * uploaded media, an AbortSignal and the `logger` bound to the op and
+ * requestId.
+ *
+ * With a `tracer`, steps 2–8 run inside a span carrying the op, requestId,
+ * the policy's `args.*` attributes (`sensitive` ones redacted) and the
+ * response status and error code. With a `logger`, each call emits an
+ * access record and handler errors an error record.
+ *
+ * Responses from operations flagged `deprecated` or carrying a `sunset`
+ * date get `Deprecation` and `Sunset` headers and a `meta.deprecation`
+ * block, and each such call is reported to `onDeprecatedCall`.
+ *
+ * `ctx.requestId` and `ctx.sessionId` from the envelope are echoed on every
+ * response; a requestId is generated when the caller did not supply one.
+ * Error messages are translated for `ctx.locale` when the error was defined
+ * with `messages`, falling back by BCP-47 lookup (`fr-CA` → `fr`) and then
+ * to the English `message`.
+ *
+ * ```
+ * const built = await buildRegistry({ opsDir: "./src/operations" })
+ * const dispatch = createDispatcher(built)
+ *
+ * const { status, body } = await dispatch(await req.json(), { headers: req.headers })
+ * ```
+ */
+export function createDispatcher(options: DispatcherOptions): Dispatch {
+  const {
+    modules,
+    authenticator = envelopeAuthenticator,
+    idempotency,
+    rateLimits = createMemoryRateLimitStore(),
+    cache,
+    jobs,
+    cancellations,
+    chunks,
+    streams,
+    validateResults = "off",
+    validateErrors = "off",
+    tracer,
+    logger,
+    onDeprecatedCall,
+  } = options;
+  const entries = new Map<string, RegistryEntry>(
+    options.registry?.operations.map((entry) => [entry.op, entry]) ?? [],
+  );
+
+  async function dispatchEnvelope(
+    envelope: RequestEnvelope,
+    requestId: string,
+    sessionId: string | undefined,
+    requestCtx: DispatchRequestContext,
+    call: { subject?: string },
+    traceparent?: string,
+  ): Promise<DispatchResult> {
+    const locale = envelope.ctx?.locale;
+    const operation = modules.get(envelope.op);
+    if (!operation) {
+      return formatError(new OpNotFoundError({ op: envelope.op }), requestId, sessionId, locale);
+    }
+
+    const sunsetError = checkSunset(operation, envelope.op, requestId, sessionId);
+    if (sunsetError) return sunsetError;
+
+    const entry = entries.get(envelope.op);
+    const authResult = await authorize(
+      authenticator,
+      envelope,
+      requestCtx,
+      operation.requiresAuth === true,
+      entry?.authScopes ?? [],
+    );
+    if (!authResult.ok) return formatError(authResult.error, requestId, sessionId, locale);
+    call.subject = authResult.principal?.sub;
+
+    const rateLimit = entry?.rateLimit;
+    if (rateLimit) {
+      // envelopeAuthenticator's subject is the caller's own claim, so it gets no bucket of its own
+      const subject = authenticator === envelopeAuthenticator ? undefined : call.subject;
+      const decision = await rateLimits.take(rateLimitKey(envelope.op, rateLimit, subject), rateLimit);
+      if (!decision.allowed) {
+        const limited = formatError(
+          new RateLimitedError({
+            op: envelope.op,
+            limit: rateLimit.limit,
+            windowMs: rateLimit.windowMs,
+            per: rateLimit.per,
+          }),
+          requestId,
+          sessionId,
+          locale,
+        );
+        return {
+          ...limited,
+          body: { ...limited.body, retryAfterMs: decision.retryAfterMs },
+          headers: { "Retry-After": String(Math.ceil(decision.retryAfterMs / 1000)) },
+        };
+      }
+    }
+
+    const argsResult = validateArgs(operation, envelope.args, requestId, sessionId);
+    if (!argsResult.ok) return argsResult.error;
+
+    const mediaResult = resolveMedia(entry?.mediaSchema, envelope.media, requestCtx.parts);
+    if (!mediaResult.ok) return formatError(mediaResult.error, requestId, sessionId, locale);
+
+    const syncPolicy = entry?.sync;
+    const runsAsJob = entry?.executionModel === "async" && jobs !== undefined;
+    const escalates = syncPolicy?.onTimeout === "escalate" && jobs !== undefined;
+    const budgetMs = escalates
+      ? Infinity
+      : Math.min(envelope.ctx?.timeoutMs ?? Infinity, syncPolicy?.maxMs ?? Infinity);
+    const deadline = Number.isFinite(budgetMs) ? Date.now() + budgetMs : undefined;
+    const controller = new AbortController();
+    const idempotencyPolicy = entry?.idempotency;
+    const idempotencyKey = extractIdempotencyKey(
+      envelope,
+      requestCtx.batchItem ? undefined : requestCtx.headers,
+      idempotencyPolicy,
+    );
+    const handlerCtx = createHandlerContext({
+      envelope,
+      requestId,
+      principal: authResult.principal,
+      idempotencyKey,
+      ...(traceparent !== undefined && { traceparent }),
+      ...(deadline !== undefined && { deadline }),
+      signal: controller.signal,
+      logger,
+      media: mediaResult.files,
+    });
+
+    const declaredErrors = validateErrors !== "off" ? entry?.errors : undefined;
+    const checkDeclared = (err: unknown, ctx: HandlerContext): unknown => {
+      // Cancellation reasons rethrown by the handler are the dispatcher's own errors
+      if (!declaredErrors || !isOpenCallError(err) || err === ctx.signal.reason) return err;
+      if (declaredErrors.includes(err.code)) return err;
+      if (validateErrors === "enforce") {
+        return new InternalError({
+          op: envelope.op,
+          reason: "Handler threw an error the operation does not declare",
+          code: err.code,
+          declared: declaredErrors,
+        });
+      }
+      writeLog(logger, "warn", "opencall: handler threw an error the operation does not declare", {
+        op: envelope.op,
+        requestId,
+        code: err.code,
+        declared: declaredErrors,
+      });
+      return err;
+    };
+
+    const handler = async (args: unknown, ctx: HandlerContext) => {
+      const opResult = await operation.handler(args, ctx).catch((err: unknown) => {
+        throw checkDeclared(err, ctx);
+      });
+      if (opResult.state === "streaming" && opResult.frames) {
+        if (!streams) {
+          throw new Error(`${envelope.op} returned stream frames but no stream manager is configured`);
+        }
+        return openStream(streams, entry?.stream, {
+          op: envelope.op,
+          subject: authResult.principal?.sub,
+          frames: opResult.frames,
+          frameSchema: operation.frameSchema,
+          inboundSchema: operation.inboundSchema,
+        });
+      }
+      if (opResult.result instanceof ChunkedResult) {
+        if (!chunks) {
+          throw new Error(`${envelope.op} returned a chunked result but no chunk store is configured`);
+        }
+        const ttlSeconds = entry?.ttlSeconds || DEFAULT_JOB_TTL_SECONDS;
+        const stored = await chunks.put({
+          requestId,
+          op: envelope.op,
+          subject: authResult.principal?.sub,
+          chunks: await buildChunks(opResult.result),
+          expiresAt: Date.now() + ttlSeconds * 1000,
+        });
+        if (!stored) throw new RequestIdConflictError({ requestId });
+        return { state: "complete" as const, location: { uri: chunksLocation(requestId) } };
+      }
+      if (validateResults === "off" || opResult.state !== "complete" || opResult.result === undefined) {
+        return opResult;
+      }
+
+      const checked = validateResult(operation, opResult.result);
+      if (checked.ok) return { ...opResult, result: checked.data };
+      if (validateResults === "enforce") {
+        throw new InternalError({
+          op: envelope.op,
+          reason: "Handler result does not match the operation's result schema",
+          issues: checked.issues,
+        });
+      }
+      writeLog(logger, "warn", "opencall: handler result does not match the result schema", {
+        op: envelope.op,
+        requestId,
+        issues: checked.issues,
+      });
+      return opResult;
+    };
+    const loggedHandler = logger
+      ? (args: unknown, ctx: HandlerContext) =>
+          handler(args, ctx).catch((err: unknown) => {
+            logHandlerError(logger, { op: envelope.op, requestId }, err);
+            throw err;
+          })
+      : handler;
+    const cancellableHandler = (args: unknown, ctx: HandlerContext) =>
+      runCancellable(
+        controller,
+        // With a SyncPolicy, runWithSyncPolicy aborts the handler once it gives up on it
+        syncPolicy && !runsAsJob
+          ? { op: envelope.op, requestId }
+          : { op: envelope.op, requestId, deadline, timeoutMs: budgetMs },
+        // Only calls that can become jobs are cancellable through DELETE /ops/{requestId}
+        runsAsJob || escalates ? cancellations : undefined,
+        () => loggedHandler(args, ctx),
+      );
+    const handlerCall = () =>
+      safeHandlerCall(
+        cancellableHandler,
+        [argsResult.data, handlerCtx],
+        requestId,
+        sessionId,
+        locale,
+      );
+
+    const cachePolicy = entry?.cache;
+    // envelopeAuthenticator takes the caller's identity from its own envelope,
+    // which cannot key results private to a user or tenant
+    const callerScoped = cachePolicy?.scope === "private" || cachePolicy?.scope === "tenant";
+    const cacheKey =
+      cache &&
+      cachePolicy?.enabled &&
+      cachePolicy.ttl &&
+      !entry?.sideEffecting &&
+      !(callerScoped && authenticator === envelopeAuthenticator)
+        ? computeCacheKey(cachePolicy, envelope, authResult.principal)
+        : undefined;
+    const cachedCall =
+      cache && cachePolicy && cacheKey !== undefined
+        ? () => runCached(cache, cacheKey, cachePolicy, requestId, sessionId, handlerCall)
+        : handlerCall;
+
+    const subject = authResult.principal?.sub;
+    let invoke = cachedCall;
+    if (runsAsJob) {
+      const ttlSeconds = entry.ttlSeconds || DEFAULT_JOB_TTL_SECONDS;
+      invoke = () =>
+        acceptJob(
+          jobs,
+          { requestId, sessionId, op: envelope.op, subject, ttlSeconds },
+          cachedCall,
+          logger,
+        );
+    } else if (syncPolicy) {
+      const timeoutMs = envelope.ctx?.timeoutMs;
+      invoke = () =>
+        runWithSyncPolicy(
+          syncPolicy,
+          { op: envelope.op, requestId, sessionId, subject, timeoutMs, locale, controller, logger },
+          jobs,
+          cachedCall,
+        );
+    }
+
+    if (idempotencyPolicy?.required && !idempotencyKey) {
+      return formatError(
+        new IdempotencyKeyRequiredError({
+          op: envelope.op,
+          ...(idempotencyPolicy.keyHeader && { keyHeader: idempotencyPolicy.keyHeader }),
+        }),
+        requestId,
+        sessionId,
+        locale,
+      );
+    }
+
+    const run =
+      idempotency && idempotencyPolicy && idempotencyKey
+        ? () =>
+            runIdempotent(
+              idempotency,
+              {
+                op: envelope.op,
+                subject,
+                key: idempotencyKey,
+                args: envelope.args,
+                ttlSeconds: idempotencyPolicy.ttlSeconds ?? DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+                locale,
+              },
+              requestId,
+              sessionId,
+              invoke,
+            )
+        : invoke;
+
+    // A disconnect only cancels work the caller is still waiting on; jobs outlive the request
+    const onDisconnect = () =>
+      controller.abort(new CancelledError({ op: envelope.op, reason: "The caller disconnected" }));
+    requestCtx.signal?.addEventListener("abort", onDisconnect, { once: true });
+    if (requestCtx.signal?.aborted) onDisconnect();
+    try {
+      return await run();
+    } finally {
+      requestCtx.signal?.removeEventListener("abort", onDisconnect);
+    }
+  }
+
+  return async function dispatch(rawBody, requestCtx = {}) {
+    const started = Date.now();
+    const envResult = validateEnvelope(rawBody);
+    if (!envResult.ok) {
+      if (logger) {
+        logCall(
+          logger,
+          { requestId: envResult.error.body.requestId, durationMs: Date.now() - started },
+          envResult.error,
+        );
+      }
+      return envResult.error;
+    }
+
+    const { envelope } = envResult;
+    const requestId = envelope.ctx?.requestId ?? crypto.randomUUID();
+    const sessionId = envelope.ctx?.sessionId;
+    const telemetry = entries.get(envelope.op)?.telemetry;
+    const call: { subject?: string } = {};
+
+    let result = tracer
+      ? await runTraced(tracer, telemetry, envelope, requestId, (span) => {
+          const traceparent = formatTraceparent(span.spanContext());
+          return dispatchEnvelope(envelope, requestId, sessionId, requestCtx, call, traceparent);
+        })
+      : await dispatchEnvelope(envelope, requestId, sessionId, requestCtx, call);
+
+    const operation = modules.get(envelope.op);
+    const notice = operation && deprecationNotice(operation, entries.get(envelope.op));
+    if (notice) {
+      result = withDeprecation(result, notice);
+      onDeprecatedCall?.({ op: envelope.op, requestId, subject: call.subject, ...notice });
+    }
+
+    if (logger) {
+      logCall(
+        logger,
+        {
+          envelope,
+          requestId,
+          subject: call.subject,
+          sensitive: telemetry?.sensitive,
+          durationMs: Date.now() - started,
+        },
+        result,
+      );
+    }
+    return result;
+  };
+}
@@ -1,9 +1,19 @@
+import { z } from "zod/v4";
 import type {
   ErrorEntry,
   ErrorsResponse,
   OpenCallErrorConstructor,
 } from "@opencall/types";
 
+/** Options for buildErrorCatalog and buildErrorCatalogFromModules */
+export interface ErrorCatalogOptions {
+  /**
+   * Include each error's translated `messages`, keyed by BCP-47 language tag,
+   * so clients can render localized errors offline (default false)
+   */
+  messages?: boolean;
+}
+
 function isOpenCallErrorConstructor(value: unknown): value is OpenCallErrorConstructor {
   return (
     typeof value === "function" &&
@@ -12,13 +22,16 @@ function isOpenCallErrorConstructor(value: unknown): value is OpenCallErrorConst
   );
 }
 
-function toErrorEntry(error: OpenCallErrorConstructor): ErrorEntry {
+function toErrorEntry(error: OpenCallErrorConstructor, options: ErrorCatalogOptions): ErrorEntry {
+  const messages = options.messages ? error.messages : {};
   return {
     code: error.code,
     httpStatus: error.httpStatus,
     message: error.defaultMessage,
+    ...(Object.keys(messages).length > 0 && { messages: { ...messages } }),
     retryable: error.retryable,
     category: error.category,
+    ...(error.causeSchema && { causeSchema: z.toJSONSchema(error.causeSchema) }),
   };
 }
 
@@ -37,17 +50,19 @@ function uniqueErrors(errors: OpenCallErrorConstructor[]): OpenCallErrorConstruc
 
 export function buildErrorCatalog(
   entries: OpenCallErrorConstructor[],
+  options: ErrorCatalogOptions = {},
 ): ErrorsResponse {
   return {
     errors: uniqueErrors(entries)
       .filter(isOpenCallErrorConstructor)
-      .map(toErrorEntry)
+      .map((error) => toErrorEntry(error, options))
       .sort((a, b) => a.code.localeCompare(b.code)),
   };
 }
 
 export function buildErrorCatalogFromModules(
   modules: Record<string, unknown>[],
+  options: ErrorCatalogOptions = {},
 ): ErrorsResponse {
   const errors: OpenCallErrorConstructor[] = [];
 
@@ -64,6 +79,6 @@ export function buildErrorCatalogFromModules(
     }
   }
 
-  return buildErrorCatalog(errors);
+  return buildErrorCatalog(errors, options);
 }
 
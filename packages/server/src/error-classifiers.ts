@@ -0,0 +1,77 @@
+import { isDbConnectionError } from "./db-errors.js";
+
+/** A thrown error recognised as a failing backend dependency */
+export interface BackendFailure {
+  /** The dependency that failed, e.g. `postgres` or `http`; published as `cause.service` */
+  service: string;
+  retryable: boolean;
+  /** Suggested client back-off, returned as the response's `retryAfterMs` */
+  retryAfterMs?: number;
+  /** Error message for the response; defaults to "Backend temporarily unavailable" */
+  message?: string;
+}
+
+/** Recognises a backend failure, or returns undefined to defer to the next classifier */
+export type ErrorClassifier = (err: unknown) => BackendFailure | undefined;
+
+const DATABASE_MESSAGE = "Database temporarily unavailable";
+const NETWORK_CODES = new Set(["ECONNRESET", "ETIMEDOUT", "EAI_AGAIN"]);
+const FETCH_FAILURE = /fetch failed|failed to fetch|networkerror|load failed|network connection lost/i;
+
+function errorCode(err: unknown): string | undefined {
+  const code = (err as { code?: unknown } | null | undefined)?.code;
+  return typeof code === "string" ? code : undefined;
+}
+
+/**
+ * Built-in classifiers, in the order they are tried. `fetch` wraps socket
+ * errors in a TypeError, so it is checked before the bare network codes.
+ */
+const builtinClassifiers: ErrorClassifier[] = [
+  (err) =>
+    err instanceof TypeError && FETCH_FAILURE.test(err.message)
+      ? { service: "http", retryable: true, retryAfterMs: 1_000 }
+      : undefined,
+  (err) =>
+    [errorCode(err), errorCode((err as { cause?: unknown } | null | undefined)?.cause)].some(
+      (code) => code !== undefined && NETWORK_CODES.has(code),
+    )
+      ? { service: "network", retryable: true, retryAfterMs: 1_000 }
+      : undefined,
+  (err) =>
+    errorCode(err) === "ER_CON_COUNT_ERROR"
+      ? { service: "mysql", retryable: true, retryAfterMs: 5_000, message: DATABASE_MESSAGE }
+      : undefined,
+  (err) =>
+    errorCode(err)?.startsWith("SQLITE_BUSY")
+      ? { service: "sqlite", retryable: true, retryAfterMs: 100, message: DATABASE_MESSAGE }
+      : undefined,
+  (err) =>
+    isDbConnectionError(err)
+      ? { service: "postgres", retryable: true, retryAfterMs: 60_000, message: DATABASE_MESSAGE }
+      : undefined,
+];
+
+const registeredClassifiers: ErrorClassifier[] = [];
+
+/**
+ * Add a classifier that `safeHandlerCall` consults for errors that are not
+ * OpenCALL errors. Registered classifiers run before the built-ins, the most
+ * recently registered first. Returns a function that removes the classifier.
+ */
+export function registerErrorClassifier(classifier: ErrorClassifier): () => void {
+  registeredClassifiers.unshift(classifier);
+  return () => {
+    const index = registeredClassifiers.indexOf(classifier);
+    if (index !== -1) registeredClassifiers.splice(index, 1);
+  };
+}
+
+/** The first classifier's verdict on `err`, or undefined if none recognises it */
+export function classifyError(err: unknown): BackendFailure | undefined {
+  for (const classifier of [...registeredClassifiers, ...builtinClassifiers]) {
+    const failure = classifier(err);
+    if (failure) return failure;
+  }
+  return undefined;
+}
@@ -0,0 +1,310 @@
+import {
+  CancelledError,
+  InvalidEnvelopeError,
+  PayloadTooLargeError,
+  protocolError,
+  type ErrorsResponse,
+} from "@opencall/types";
+import { bearerToken } from "./auth.js";
+import { DEFAULT_MAX_BATCH_SIZE, dispatchBatch, parseBatch } from "./batch.js";
+import { createCancellationRegistry } from "./cancel.js";
+import { createMemoryChunkStore, formatChunk } from "./chunks.js";
+import { createStreamSessionManager, serveSse } from "./streams.js";
+import { createDispatcher, type Dispatch, type DispatcherOptions } from "./dispatch.js";
+import { DEFAULT_MAX_MULTIPART_BYTES, isMultipart, parseMultipart } from "./media.js";
+import { createMemoryJobStore, formatJobStatus, type JobRecord } from "./jobs.js";
+import { coerceQueryArgs, pathCacheHeaders } from "./path.js";
+import type { BuildRegistryResult } from "./registry.js";
+import { formatError, type DispatchResult } from "./validate.js";
+
+/** Options for createFetchHandler */
+export interface FetchHandlerOptions
+  extends DispatcherOptions,
+    Pick<BuildRegistryResult, "json" | "etag"> {
+  /** Error catalog served at /.well-known/errors, e.g. from buildErrorCatalogFromModules() */
+  errors?: ErrorsResponse;
+  /**
+   * Pre-built dispatcher. Defaults to createDispatcher(options); pass it the
+   * same `jobs`, `cancellations`, `chunks` and `streams`.
+   */
+  dispatch?: Dispatch;
+  /** Maximum accepted request body size in bytes (defaults to 1 MiB) */
+  maxBodyBytes?: number;
+  /** Maximum accepted multipart/form-data request size in bytes, media included (defaults to 32 MiB) */
+  maxMultipartBytes?: number;
+  /** Maximum number of envelopes in a batch `POST /call` (defaults to 50) */
+  maxBatchSize?: number;
+  /** Number of batch envelopes dispatched in parallel (defaults to 1, one after another) */
+  batchConcurrency?: number;
+}
+
+/** Default maximum request body size: 1 MiB */
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/** A Fetch-API request handler, as used by Bun.serve, Deno.serve and Workers */
+export type FetchHandler = (req: Request) => Promise<Response>;
+
+const JSON_HEADERS = { "Content-Type": "application/json" };
+
+function jsonResponse(body: unknown, status: number, headers?: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...JSON_HEADERS, ...headers },
+  });
+}
+
+/** Map a DispatchResult onto a Fetch-API Response */
+function toResponse(result: DispatchResult, extraHeaders?: Record<string, string>): Response {
+  const headers: Record<string, string> = { ...result.headers, ...extraHeaders };
+  if (result.status === 303 && result.body.location) {
+    headers["Location"] = result.body.location.uri;
+  }
+  return jsonResponse(result.body, result.status, headers);
+}
+
+function methodNotAllowed(allow: string): Response {
+  const { status, body } = protocolError(
+    "METHOD_NOT_ALLOWED",
+    `Method not allowed; use ${allow}`,
+    405,
+  );
+  return jsonResponse(body, status, { Allow: allow });
+}
+
+function notFound(path: string): Response {
+  const { status, body } = protocolError("NOT_FOUND", `No route for ${path}`, 404);
+  return jsonResponse(body, status);
+}
+
+function upgradeRequired(transport: string): Response {
+  const { status, body } = protocolError(
+    "UPGRADE_REQUIRED",
+    `This stream is served over ${transport}`,
+    426,
+  );
+  return jsonResponse(body, status, { Upgrade: transport });
+}
+
+function payloadTooLarge(maxBodyBytes: number): Response {
+  return toResponse(
+    formatError(new PayloadTooLargeError({ maxBodyBytes }), crypto.randomUUID()),
+  );
+}
+
+/**
+ * Create a Fetch-API request handler serving the OpenCALL routes:
+ *
+ * - `POST /call` — dispatches the JSON envelope (413 above `maxBodyBytes`), or a
+ *   multipart/form-data body whose `envelope` part is the envelope and whose
+ *   other parts are the media referenced by `media[].part` (413 above `maxMultipartBytes`).
+ *   A JSON array of envelopes, or a `{ batch: [...] }` wrapper, is a batch: each
+ *   envelope is dispatched independently, `batchConcurrency` at a time, and the
+ *   response is 200 with the array of response envelopes in order
+ * - `GET /.well-known/ops` — the registry, with `ETag` / `If-None-Match` → 304
+ * - `GET /.well-known/errors` — the error catalog, when `errors` is supplied
+ * - `GET /ops/{op}?{args}` — path-mode invocation, when the registry's `endpoints`
+ *   include `"path"`. Query values are coerced to the `args` schema's types; the
+ *   response envelope matches `POST /call`. Side-effecting operations get 405.
+ *   `complete` results carry `Cache-Control` and `ETag` from the operation's
+ *   CachePolicy (`If-None-Match` → 304); everything else is `no-store`.
+ * - `GET /ops/{requestId}` — status of a background job (defaults to an in-memory job store).
+ *   With an `authenticator`, only the subject that started the job can read it.
+ * - `DELETE /ops/{requestId}` — cancel a pending job: its handler's signal aborts and the
+ *   job ends with 499 CANCELLED. Responds 200 with the job's envelope; jobs that already
+ *   finished are left as they are, and 409 NOT_CANCELLABLE when the job runs elsewhere.
+ *   Allowed for the same subject as GET.
+ * - `GET /ops/{requestId}/chunks?cursor=` — the next chunk of a `chunked(...)` result
+ *   (defaults to an in-memory chunk store), in the shape read by the client's retrieveChunked().
+ *   Readable only by the subject that produced it, as for jobs.
+ * - `GET /streams/{sessionId}` — the frames of a stream session as Server-Sent Events
+ *   (defaults to an in-memory session manager). Each session can be subscribed to once;
+ *   `websocket` sessions get 426 and are served by createWebSocketTransport.
+ *
+ * ```
+ * const built = buildRegistryFromModules(operationEntries)
+ * const errors = buildErrorCatalogFromModules(operationModules)
+ * export default { fetch: createFetchHandler({ ...built, errors }) }
+ * ```
+ */
+export function createFetchHandler(options: FetchHandlerOptions): FetchHandler {
+  const jobs = options.jobs ?? createMemoryJobStore();
+  const chunks = options.chunks ?? createMemoryChunkStore();
+  const streams = options.streams ?? createStreamSessionManager();
+  const cancellations = options.cancellations ?? createCancellationRegistry();
+  const dispatch =
+    options.dispatch ?? createDispatcher({ ...options, jobs, cancellations, chunks, streams });
+  const {
+    json,
+    etag,
+    errors,
+    authenticator,
+    maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+    maxMultipartBytes = DEFAULT_MAX_MULTIPART_BYTES,
+    maxBatchSize = DEFAULT_MAX_BATCH_SIZE,
+    batchConcurrency = 1,
+  } = options;
+  const pathMode = options.registry?.endpoints.includes("path") ?? false;
+  const entries = new Map(options.registry?.operations.map((entry) => [entry.op, entry]) ?? []);
+
+  async function invokePath(op: string, req: Request): Promise<Response> {
+    if (req.method !== "GET") return methodNotAllowed("GET");
+    const entry = entries.get(op);
+    if (entry?.sideEffecting) {
+      const { status, body } = protocolError(
+        "METHOD_NOT_ALLOWED",
+        `${op} is side-effecting; invoke it with POST /call`,
+        405,
+      );
+      return jsonResponse(body, status, { Allow: "POST" });
+    }
+
+    const args = coerceQueryArgs(options.modules.get(op)!.args, new URL(req.url).searchParams);
+    const result = await dispatch({ op, args }, { headers: req.headers, signal: req.signal });
+    const headers = await pathCacheHeaders(entry?.cache, result);
+    if (headers["ETag"] && req.headers.get("If-None-Match") === headers["ETag"]) {
+      return new Response(null, { status: 304, headers });
+    }
+    return toResponse(result, headers);
+  }
+
+  async function cancelJob(job: JobRecord): Promise<Response> {
+    if (job.state !== "pending") return jsonResponse(formatJobStatus(job).body, 200);
+
+    const error = new CancelledError({ op: job.op });
+    if (!cancellations.cancel(job.requestId, error)) {
+      const { status, body } = protocolError(
+        "NOT_CANCELLABLE",
+        `Job ${job.requestId} is not running on this instance`,
+        409,
+      );
+      return jsonResponse(body, status);
+    }
+    const cancelled = formatError(error, job.requestId);
+    await jobs.finish(job.requestId, cancelled, job.expiresAt);
+    return jsonResponse(cancelled.body, 200);
+  }
+
+  async function canRead(
+    record: Pick<JobRecord, "op" | "subject">,
+    req: Request,
+  ): Promise<boolean> {
+    if (!authenticator || record.subject === undefined) return true;
+    try {
+      const principal = await authenticator.authenticate({
+        envelope: { op: record.op, args: {} },
+        headers: req.headers,
+        credential: bearerToken(req.headers),
+      });
+      return principal?.sub === record.subject;
+    } catch {
+      return false;
+    }
+  }
+
+  return async function handle(req) {
+    const { pathname } = new URL(req.url);
+
+    if (pathname === "/call") {
+      if (req.method !== "POST") return methodNotAllowed("POST");
+
+      const multipart = isMultipart(req.headers);
+      const limit = multipart ? maxMultipartBytes : maxBodyBytes;
+      const declaredLength = Number(req.headers.get("Content-Length") ?? 0);
+      if (declaredLength > limit) return payloadTooLarge(limit);
+
+      if (multipart) {
+        const parsed = await parseMultipart(req, limit);
+        if (!parsed.ok) return toResponse(formatError(parsed.error, crypto.randomUUID()));
+        return toResponse(
+          await dispatch(parsed.envelope, { headers: req.headers, parts: parsed.parts, signal: req.signal }),
+        );
+      }
+
+      const bytes = await req.arrayBuffer();
+      if (bytes.byteLength > maxBodyBytes) return payloadTooLarge(maxBodyBytes);
+
+      let rawBody: unknown;
+      try {
+        rawBody = JSON.parse(new TextDecoder().decode(bytes));
+      } catch {
+        return toResponse(
+          formatError(
+            new InvalidEnvelopeError({ reason: "Request body is not valid JSON" }),
+            crypto.randomUUID(),
+          ),
+        );
+      }
+
+      const batch = parseBatch(rawBody);
+      if (batch) {
+        if (batch.length === 0 || batch.length > maxBatchSize) {
+          return toResponse(
+            formatError(
+              new InvalidEnvelopeError({
+                reason: `A batch must hold between 1 and ${maxBatchSize} envelopes; got ${batch.length}`,
+              }),
+              crypto.randomUUID(),
+            ),
+          );
+        }
+        const results = await dispatchBatch(
+          dispatch,
+          batch,
+          { headers: req.headers, signal: req.signal },
+          batchConcurrency,
+        );
+        return jsonResponse(results.map((result) => result.body), 200);
+      }
+
+      return toResponse(await dispatch(rawBody, { headers: req.headers, signal: req.signal }));
+    }
+
+    if (pathname === "/.well-known/ops") {
+      if (req.method !== "GET") return methodNotAllowed("GET");
+      if (req.headers.get("If-None-Match") === etag) {
+        return new Response(null, { status: 304, headers: { ETag: etag } });
+      }
+      return new Response(json, {
+        status: 200,
+        headers: { ...JSON_HEADERS, ETag: etag },
+      });
+    }
+
+    if (pathname === "/.well-known/errors" && errors) {
+      if (req.method !== "GET") return methodNotAllowed("GET");
+      return jsonResponse(errors, 200);
+    }
+
+    const jobMatch = pathname.match(/^\/ops\/([^/]+)$/);
+    if (jobMatch) {
+      const id = decodeURIComponent(jobMatch[1]!);
+      if (pathMode && options.modules.has(id)) return invokePath(id, req);
+      if (req.method !== "GET" && req.method !== "DELETE") return methodNotAllowed("GET, DELETE");
+      const job = await jobs.get(id);
+      if (!job || !(await canRead(job, req))) return notFound(pathname);
+      if (req.method === "DELETE") return cancelJob(job);
+      return toResponse(formatJobStatus(job));
+    }
+
+    const chunksMatch = pathname.match(/^\/ops\/([^/]+)\/chunks$/);
+    if (chunksMatch) {
+      if (req.method !== "GET") return methodNotAllowed("GET");
+      const set = await chunks.get(decodeURIComponent(chunksMatch[1]!));
+      if (!set || !(await canRead(set, req))) return notFound(pathname);
+      const { status, body } = formatChunk(set.chunks, new URL(req.url).searchParams.get("cursor"));
+      return jsonResponse(body, status);
+    }
+
+    const streamMatch = pathname.match(/^\/streams\/([^/]+)$/);
+    if (streamMatch) {
+      if (req.method !== "GET") return methodNotAllowed("GET");
+      const session = streams.get(decodeURIComponent(streamMatch[1]!));
+      if (!session || !(await canRead(session, req))) return notFound(pathname);
+      if (session.transport !== "sse") return upgradeRequired(session.transport);
+      streams.close(session.sessionId);
+      return serveSse(session);
+    }
+
+    return notFound(pathname);
+  };
+}
@@ -0,0 +1,164 @@
+import {
+  IdempotencyConflictError,
+  IdempotencyInProgressError,
+  type IdempotencyPolicy,
+  type RequestEnvelope,
+} from "@opencall/types";
+import { sha256Hex, stableStringify } from "./hash.js";
+import { formatError, type DispatchResult } from "./validate.js";
+
+/** Retention used when an operation's IdempotencyPolicy omits ttlSeconds: 24 hours */
+export const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 86_400;
+
+/** Outcome of claiming an idempotency key */
+export type IdempotencyClaim =
+  /** The key was unused and is now held in-flight by the caller */
+  | { status: "claimed" }
+  /** Another request holds the key and has not finished */
+  | { status: "in-flight"; fingerprint: string }
+  /** A request with this key already finished; its result can be replayed */
+  | { status: "complete"; fingerprint: string; result: DispatchResult };
+
+/**
+ * Storage for idempotency keys and the first result produced under each.
+ *
+ * `claim` must be atomic: when two requests race on the same key exactly one
+ * of them may observe `claimed`.
+ */
+export interface IdempotencyStore {
+  /** Claim `key` for a request whose arguments hash to `fingerprint` */
+  claim(key: string, fingerprint: string, ttlSeconds: number): Promise<IdempotencyClaim>;
+  /** Record the result for a claimed key, retained for ttlSeconds */
+  complete(key: string, result: DispatchResult, ttlSeconds: number): Promise<void>;
+  /** Drop a claimed key without a result so a retry can run the operation again */
+  release(key: string): Promise<void>;
+}
+
+interface MemoryRecord {
+  fingerprint: string;
+  result?: DispatchResult;
+  expiresAt: number;
+}
+
+/** In-memory IdempotencyStore for single-instance services and tests */
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const records = new Map<string, MemoryRecord>();
+
+  function live(key: string): MemoryRecord | undefined {
+    const record = records.get(key);
+    if (record && record.expiresAt <= Date.now()) {
+      records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  return {
+    async claim(key, fingerprint, ttlSeconds) {
+      const record = live(key);
+      if (!record) {
+        records.set(key, { fingerprint, expiresAt: Date.now() + ttlSeconds * 1000 });
+        return { status: "claimed" };
+      }
+      if (!record.result) return { status: "in-flight", fingerprint: record.fingerprint };
+      return { status: "complete", fingerprint: record.fingerprint, result: record.result };
+    },
+
+    async complete(key, result, ttlSeconds) {
+      const record = live(key);
+      if (!record) return;
+      records.set(key, { ...record, result, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+
+    async release(key) {
+      records.delete(key);
+    },
+  };
+}
+
+/**
+ * Read the idempotency key for a request: `ctx.idempotencyKey` from the
+ * envelope, falling back to the policy's `keyHeader` request header.
+ */
+export function extractIdempotencyKey(
+  envelope: RequestEnvelope,
+  headers?: Headers,
+  policy?: IdempotencyPolicy,
+): string | undefined {
+  const fromEnvelope = envelope.ctx?.idempotencyKey;
+  if (fromEnvelope) return fromEnvelope;
+  if (!policy?.keyHeader) return undefined;
+  return headers?.get(policy.keyHeader) ?? undefined;
+}
+
+/**
+ * Run an operation at most once per (op, subject, key).
+ *
+ * The first request claims the key and its DispatchResult is stored for
+ * `ttlSeconds`. Retries with the same arguments replay the stored result with
+ * `meta.idempotentReplay: true`; retries with different arguments get
+ * IDEMPOTENCY_CONFLICT, and retries while the first is still running get
+ * IDEMPOTENCY_IN_PROGRESS. Results with a 5xx status, cancelled calls (499)
+ * and `pending` results from a SyncPolicy `retry` timeout are not stored, so
+ * a retry after a transient failure runs the operation again.
+ */
+export async function runIdempotent(
+  store: IdempotencyStore,
+  scope: {
+    op: string;
+    subject?: string;
+    key: string;
+    args: unknown;
+    ttlSeconds: number;
+    /** Translates the IDEMPOTENCY_* error messages */
+    locale?: string;
+  },
+  requestId: string,
+  sessionId: string | undefined,
+  run: () => Promise<DispatchResult>,
+): Promise<DispatchResult> {
+  const storeKey = [scope.op, scope.subject ?? "", scope.key].join("\u0000");
+  const fingerprint = await sha256Hex(stableStringify(scope.args));
+  const claim = await store.claim(storeKey, fingerprint, scope.ttlSeconds);
+
+  if (claim.status !== "claimed") {
+    if (claim.fingerprint !== fingerprint) {
+      return formatError(
+        new IdempotencyConflictError({ idempotencyKey: scope.key }),
+        requestId,
+        sessionId,
+        scope.locale,
+      );
+    }
+    if (claim.status === "in-flight") {
+      return formatError(
+        new IdempotencyInProgressError({ idempotencyKey: scope.key }),
+        requestId,
+        sessionId,
+        scope.locale,
+      );
+    }
+    return {
+      ...claim.result,
+      body: {
+        ...claim.result.body,
+        meta: { ...claim.result.body.meta, idempotentReplay: true },
+      },
+    };
+  }
+
+  let result: DispatchResult;
+  try {
+    result = await run();
+  } catch (err) {
+    await store.release(storeKey);
+    throw err;
+  }
+
+  if (result.status >= 500 || result.status === 499 || result.body.state === "pending") {
+    await store.release(storeKey);
+  } else {
+    await store.complete(storeKey, result, scope.ttlSeconds);
+  }
+  return result;
+}
@@ -6,20 +6,40 @@ export {
   type RequestEnvelope,
   type ResponseState,
   type ResponseEnvelope,
+  type ChunkResponse,
+  type DeprecationNotice,
+  type StreamDescriptor,
+  type StreamPolicy,
+  type MediaSchemaEntry,
+  type RateLimitPolicy,
   AuthRequiredError,
   DomainError,
   BackendUnavailableError,
+  CancelledError,
   ForbiddenError,
+  IdempotencyConflictError,
+  IdempotencyInProgressError,
+  IdempotencyKeyRequiredError,
   InternalError,
   InvalidEnvelopeError,
+  MediaRequiredError,
+  MediaTooLargeError,
   OpNotFoundError,
   OpRemovedError,
+  OperationTimeoutError,
+  PayloadTooLargeError,
+  RateLimitedError,
+  RequestIdConflictError,
   SchemaValidationError,
+  UnsupportedMediaTypeError,
   defineError,
   domainError,
   isOpenCallError,
+  matchLocale,
   protocolError,
   type ErrorCategory,
+  type ErrorCause,
+  type ErrorCauseArgs,
   type ErrorEntry,
   type ErrorsResponse,
   type OpenCallErrorConstructor,
@@ -28,6 +48,10 @@ export {
   type SerializedOpenCallError,
   type OperationResult,
   type OperationModule,
+  type OperationHandler,
+  type OperationDefinition,
+  type HandlerContext,
+  defineOperation,
   type RegistryEntry,
   type RegistryResponse,
 } from "@opencall/types"
@@ -37,6 +61,13 @@ export { parseJSDoc } from "./jsdoc.js"
 
 export { isDbConnectionError } from "./db-errors.js"
 
+export {
+  classifyError,
+  registerErrorClassifier,
+  type BackendFailure,
+  type ErrorClassifier,
+} from "./error-classifiers.js"
+
 export {
   buildRegistry,
   buildRegistryFromModules,
@@ -55,13 +86,192 @@ export {
 export {
   buildErrorCatalog,
   buildErrorCatalogFromModules,
+  type ErrorCatalogOptions,
 } from "./error-catalog.js"
 
 export {
   validateEnvelope,
   validateArgs,
+  validateResult,
   checkSunset,
   formatResponse,
+  formatError,
   safeHandlerCall,
   type DispatchResult,
 } from "./validate.js"
+
+export {
+  createDispatcher,
+  type Dispatch,
+  type DispatcherOptions,
+  type DispatchRequestContext,
+  type ErrorValidationMode,
+  type ResultValidationMode,
+} from "./dispatch.js"
+
+export {
+  createFetchHandler,
+  DEFAULT_MAX_BODY_BYTES,
+  type FetchHandler,
+  type FetchHandlerOptions,
+} from "./fetch-handler.js"
+
+export {
+  createNodeHandler,
+  type NodeHandler,
+  type NodeHandlerOptions,
+} from "./node-handler.js"
+
+export {
+  bearerToken,
+  envelopeAuthenticator,
+  missingScopes,
+  type AuthenticateRequest,
+  type Authenticator,
+  type Principal,
+} from "./auth.js"
+
+export {
+  createMemoryIdempotencyStore,
+  extractIdempotencyKey,
+  runIdempotent,
+  DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+  type IdempotencyClaim,
+  type IdempotencyStore,
+} from "./idempotency.js"
+
+export {
+  createMemoryCache,
+  computeCacheKey,
+  runCached,
+  type MemoryCacheOptions,
+  type ResponseCache,
+} from "./cache.js"
+
+export {
+  createMemoryJobStore,
+  formatJobStatus,
+  jobLocation,
+  startJob,
+  acceptJob,
+  DEFAULT_JOB_TTL_SECONDS,
+  DEFAULT_RETRY_AFTER_MS,
+  type JobRecord,
+  type JobState,
+  type JobStore,
+} from "./jobs.js"
+
+export { runWithSyncPolicy } from "./sync.js"
+
+export {
+  createSqliteJobStore,
+  type SqliteDatabase,
+  type SqliteJobStoreOptions,
+} from "./jobs-sqlite.js"
+
+export {
+  chunked,
+  ChunkedResult,
+  buildChunks,
+  chunksLocation,
+  formatChunk,
+  createMemoryChunkStore,
+  DEFAULT_CHUNK_SIZE,
+  type ChunkSet,
+  type ChunkSource,
+  type ChunkStore,
+  type StoredChunk,
+} from "./chunks.js"
+
+export {
+  createStreamSessionManager,
+  openStream,
+  formatFrame,
+  streamEvents,
+  serveSse,
+  streamLocation,
+  DEFAULT_STREAM_TTL_SECONDS,
+  STREAM_TRANSPORTS,
+  type StreamEvent,
+  type StreamFrameEvent,
+  type StreamFrames,
+  type StreamSession,
+  type StreamSessionManager,
+} from "./streams.js"
+
+export {
+  createWebSocketTransport,
+  type StreamSocket,
+  type StreamSocketData,
+  type WebSocketTransport,
+  type WebSocketTransportOptions,
+  type WebSocketUpgrader,
+} from "./websocket.js"
+
+export {
+  createMemoryTracer,
+  formatTraceparent,
+  parseTraceparent,
+  argAttributes,
+  runTraced,
+  SpanStatusCode,
+  REDACTED,
+  type MemoryTracer,
+  type RecordedSpan,
+  type Span,
+  type SpanAttributeValue,
+  type SpanContext,
+  type StartSpanOptions,
+  type Tracer,
+} from "./tracing.js"
+
+export {
+  bindLogger,
+  createJsonLogger,
+  logCall,
+  logHandlerError,
+  redactArgs,
+  serializeError,
+  silentLogger,
+  type JsonLoggerOptions,
+  type Logger,
+  type LogLevel,
+} from "./logging.js"
+
+export {
+  isMultipart,
+  parseMultipart,
+  resolveMedia,
+  DEFAULT_MAX_MULTIPART_BYTES,
+  ENVELOPE_PART,
+  type MediaFiles,
+} from "./media.js"
+
+export { coerceQueryArgs, pathCacheHeaders } from "./path.js"
+
+export { dispatchBatch, parseBatch, DEFAULT_MAX_BATCH_SIZE } from "./batch.js"
+
+export {
+  createDeprecationTracker,
+  deprecationNotice,
+  withDeprecation,
+  type DeprecatedCall,
+  type DeprecatedUsage,
+  type DeprecationTracker,
+} from "./deprecation.js"
+
+export {
+  createMemoryRateLimitStore,
+  parseRateLimit,
+  rateLimitKey,
+  type RateLimitDecision,
+  type RateLimitStore,
+} from "./ratelimit.js"
+
+export { createHandlerContext, type HandlerContextInit } from "./context.js"
+
+export {
+  createCancellationRegistry,
+  runCancellable,
+  type CancellationRegistry,
+} from "./cancel.js"
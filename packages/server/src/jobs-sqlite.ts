@@ -0,0 +1,96 @@
+import type { JobRecord, JobState, JobStore } from "./jobs.js";
+import type { DispatchResult } from "./validate.js";
+
+/**
+ * The subset of a synchronous SQLite driver used by createSqliteJobStore.
+ * Satisfied by `bun:sqlite`'s `Database` and `node:sqlite`'s `DatabaseSync`.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: (string | number | null)[]): { changes: number | bigint };
+    get(...params: (string | number | null)[]): unknown;
+  };
+}
+
+/** Options for createSqliteJobStore */
+export interface SqliteJobStoreOptions {
+  /** Table name (defaults to "opencall_jobs") */
+  table?: string;
+}
+
+interface JobRow {
+  request_id: string;
+  op: string;
+  subject: string | null;
+  state: JobState;
+  result: string | null;
+  expires_at: number;
+}
+
+/**
+ * JobStore persisted in SQLite, so job status survives restarts and is shared
+ * by every process using the same database file.
+ *
+ * ```
+ * import { Database } from "bun:sqlite"
+ *
+ * const jobs = createSqliteJobStore(new Database("jobs.sqlite"))
+ * ```
+ */
+export function createSqliteJobStore(
+  db: SqliteDatabase,
+  options?: SqliteJobStoreOptions,
+): JobStore {
+  const table = options?.table ?? "opencall_jobs";
+  if (!/^\w+$/.test(table)) {
+    throw new Error(`createSqliteJobStore: invalid table name "${table}"`);
+  }
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (
+      request_id TEXT PRIMARY KEY,
+      op TEXT NOT NULL,
+      subject TEXT,
+      state TEXT NOT NULL,
+      result TEXT,
+      expires_at INTEGER NOT NULL
+    )`,
+  );
+
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO ${table} (request_id, op, subject, state, result, expires_at)
+     VALUES (?, ?, ?, 'pending', NULL, ?)`,
+  );
+  const update = db.prepare(
+    `UPDATE ${table} SET state = ?, result = ?, expires_at = ? WHERE request_id = ?`,
+  );
+  const select = db.prepare(`SELECT * FROM ${table} WHERE request_id = ? AND expires_at > ?`);
+  const purge = db.prepare(`DELETE FROM ${table} WHERE expires_at <= ?`);
+
+  return {
+    async create(job) {
+      purge.run(Date.now());
+      return Number(insert.run(job.requestId, job.op, job.subject ?? null, job.expiresAt).changes) > 0;
+    },
+
+    async finish(requestId, result, expiresAt) {
+      const state: JobState = result.body.state === "error" ? "error" : "complete";
+      update.run(state, JSON.stringify(result), expiresAt, requestId);
+    },
+
+    async get(requestId) {
+      const row = select.get(requestId, Date.now()) as JobRow | null | undefined;
+      if (!row) return undefined;
+      const job: JobRecord = {
+        requestId: row.request_id,
+        op: row.op,
+        state: row.state,
+        expiresAt: row.expires_at,
+      };
+      if (row.subject !== null) job.subject = row.subject;
+      if (row.result !== null) job.result = JSON.parse(row.result) as DispatchResult;
+      return job;
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import { InternalError, RequestIdConflictError, type Logger } from "@opencall/types";
+import { serializeError, writeLog } from "./logging.js";
+import { formatError, formatResponse, type DispatchResult } from "./validate.js";
+
+/** Retention for background results when the operation declares no ttlSeconds: 1 hour */
+export const DEFAULT_JOB_TTL_SECONDS = 3600;
+
+/** Poll interval suggested to callers while a job is pending */
+export const DEFAULT_RETRY_AFTER_MS = 1000;
+
+/** Lifecycle state of a background job */
+export type JobState = "pending" | "complete" | "error";
+
+/** A background operation invocation, pollable at /ops/{requestId} */
+export interface JobRecord {
+  requestId: string;
+  op: string;
+  /** Subject of the principal that started the job */
+  subject?: string;
+  state: JobState;
+  /** The final DispatchResult, once the job is no longer pending */
+  result?: DispatchResult;
+  /** Epoch milliseconds after which the record may be discarded */
+  expiresAt: number;
+}
+
+/** Storage for background jobs and their results */
+export interface JobStore {
+  /**
+   * Record a new pending job; false, leaving the existing record untouched,
+   * if an unexpired job with the same requestId exists
+   */
+  create(job: Omit<JobRecord, "state" | "result">): Promise<boolean>;
+  /** Record the final result of a job, retained until expiresAt */
+  finish(requestId: string, result: DispatchResult, expiresAt: number): Promise<void>;
+  /** Look up a job, or undefined if unknown or expired */
+  get(requestId: string): Promise<JobRecord | undefined>;
+}
+
+/** In-memory JobStore for single-instance services and tests */
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, JobRecord>();
+
+  return {
+    async create(job) {
+      const existing = jobs.get(job.requestId);
+      if (existing && existing.expiresAt > Date.now()) return false;
+      jobs.set(job.requestId, { ...job, state: "pending" });
+      return true;
+    },
+
+    async finish(requestId, result, expiresAt) {
+      const job = jobs.get(requestId);
+      if (!job) return;
+      jobs.set(requestId, {
+        ...job,
+        state: result.body.state === "error" ? "error" : "complete",
+        result,
+        expiresAt,
+      });
+    },
+
+    async get(requestId) {
+      const job = jobs.get(requestId);
+      if (job && job.expiresAt <= Date.now()) {
+        jobs.delete(requestId);
+        return undefined;
+      }
+      return job;
+    },
+  };
+}
+
+/** The polling URI for a job */
+export function jobLocation(requestId: string): string {
+  return `/ops/${encodeURIComponent(requestId)}`;
+}
+
+/**
+ * Register a pending job and run it in the background, storing its result
+ * for ttlSeconds once it settles. Returns false without running anything if
+ * the requestId already belongs to a job. A store that fails to record the
+ * result is reported to `logger` (console.error without one); the job then
+ * stays pending until it expires.
+ */
+export async function startJob(
+  jobs: JobStore,
+  job: { requestId: string; op: string; subject?: string; ttlSeconds: number },
+  run: () => Promise<DispatchResult>,
+  logger?: Logger,
+): Promise<boolean> {
+  const { ttlSeconds, ...record } = job;
+  if (!(await jobs.create({ ...record, expiresAt: Date.now() + ttlSeconds * 1000 }))) return false;
+  void run()
+    .catch((err: unknown) => {
+      const message = err instanceof Error ? err.message : String(err);
+      return formatError(new InternalError({ message }), job.requestId);
+    })
+    .then((result) => jobs.finish(job.requestId, result, Date.now() + ttlSeconds * 1000))
+    .catch((err: unknown) => {
+      writeLog(logger, "error", "opencall: failed to store the job result", {
+        op: job.op,
+        requestId: job.requestId,
+        error: serializeError(err),
+      });
+    });
+  return true;
+}
+
+/**
+ * Start `run` as a background job and return the 202 `accepted` response
+ * pointing the caller at /ops/{requestId}, or 409 REQUEST_ID_CONFLICT when
+ * the requestId already belongs to a job.
+ */
+export async function acceptJob(
+  jobs: JobStore,
+  job: { requestId: string; sessionId?: string; op: string; subject?: string; ttlSeconds: number },
+  run: () => Promise<DispatchResult>,
+  logger?: Logger,
+): Promise<DispatchResult> {
+  const { sessionId, ...record } = job;
+  if (!(await startJob(jobs, record, run, logger))) {
+    return formatError(new RequestIdConflictError({ requestId: job.requestId }), job.requestId, sessionId);
+  }
+  return formatResponse(
+    {
+      state: "accepted",
+      location: { uri: jobLocation(job.requestId) },
+      retryAfterMs: DEFAULT_RETRY_AFTER_MS,
+    },
+    job.requestId,
+    sessionId,
+  );
+}
+
+/**
+ * Format the status of a job for GET /ops/{requestId}: a `pending` envelope
+ * pointing back at itself while running, otherwise the stored result.
+ */
+export function formatJobStatus(job: JobRecord): DispatchResult {
+  if (job.state !== "pending" && job.result) return job.result;
+  return {
+    status: 200,
+    body: {
+      requestId: job.requestId,
+      state: "pending",
+      location: { uri: jobLocation(job.requestId) },
+      retryAfterMs: DEFAULT_RETRY_AFTER_MS,
+    },
+  };
+}
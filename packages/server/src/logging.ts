@@ -0,0 +1,137 @@
+import { isOpenCallError, type Logger, type RequestEnvelope } from "@opencall/types";
+import { REDACTED } from "./tracing.js";
+import type { DispatchResult } from "./validate.js";
+
+/** Severity of a log record */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type { Logger };
+
+/** Options for createJsonLogger */
+export interface JsonLoggerOptions {
+  /** Minimum level to emit (defaults to "info") */
+  level?: LogLevel;
+  /** Sink for each JSON line (defaults to console.log) */
+  write?: (line: string) => void;
+}
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/** Logger writing one JSON object per record: `{ level, time, msg, ...fields }` */
+export function createJsonLogger(options?: JsonLoggerOptions): Logger {
+  const min = LEVELS.indexOf(options?.level ?? "info");
+  const write = options?.write ?? ((line: string) => console.log(line));
+
+  const log = (level: LogLevel) => (message: string, fields?: Record<string, unknown>) => {
+    if (LEVELS.indexOf(level) < min) return;
+    write(JSON.stringify({ level, time: new Date().toISOString(), msg: message, ...fields }));
+  };
+
+  return { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
+
+/** Logger that discards every record */
+export const silentLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+/** Logger adding `fields` to every record written through it */
+export function bindLogger(logger: Logger, fields: Record<string, unknown>): Logger {
+  const log = (level: LogLevel) => (message: string, extra?: Record<string, unknown>) =>
+    logger[level](message, { ...fields, ...extra });
+  return { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
+
+/**
+ * Copy `args` with each `sensitive` path (with or without the `args.`
+ * prefix) replaced by REDACTED.
+ */
+export function redactArgs(args: Record<string, unknown>, sensitive: string[] = []): Record<string, unknown> {
+  const copy = structuredClone(args);
+  for (const path of sensitive) {
+    const segments = path.replace(/^args\./, "").split(".");
+    const last = segments.pop()!;
+    let target: unknown = copy;
+    for (const segment of segments) {
+      target = typeof target === "object" && target !== null
+        ? (target as Record<string, unknown>)[segment]
+        : undefined;
+    }
+    if (typeof target === "object" && target !== null && last in target) {
+      (target as Record<string, unknown>)[last] = REDACTED;
+    }
+  }
+  return copy;
+}
+
+/** Write a record to `logger`, or to the console when no logger is configured */
+export function writeLog(
+  logger: Logger | undefined,
+  level: LogLevel,
+  message: string,
+  fields: Record<string, unknown>,
+): void {
+  if (logger) logger[level](message, fields);
+  else console[level](message, fields);
+}
+
+/** Serialize a thrown value for logging: `toLog()` for OpenCALL errors, otherwise name/message/stack */
+export function serializeError(err: unknown): Record<string, unknown> {
+  if (isOpenCallError(err)) return { ...err.toLog() };
+  if (err instanceof Error) return { name: err.name, message: err.message, stack: err.stack };
+  return { message: String(err) };
+}
+
+/**
+ * Emit the access record for a call: one `info` record per call with the
+ * op, ids, subject, outcome and duration, plus the arguments with `sensitive`
+ * paths redacted and the envelope auth with its credential redacted.
+ */
+export function logCall(
+  logger: Logger,
+  call: {
+    envelope?: RequestEnvelope;
+    requestId: string;
+    subject?: string;
+    sensitive?: string[];
+    durationMs: number;
+  },
+  result: DispatchResult,
+): void {
+  const { envelope } = call;
+  const fields: Record<string, unknown> = {
+    op: envelope?.op,
+    requestId: call.requestId,
+    sessionId: envelope?.ctx?.sessionId,
+    parentId: envelope?.ctx?.parentId,
+    subject: call.subject,
+    status: result.status,
+    state: result.body.state,
+    errorCode: result.body.error?.code,
+    durationMs: call.durationMs,
+    ...(envelope && { args: redactArgs(envelope.args, call.sensitive) }),
+    ...(envelope?.auth && {
+      auth: {
+        ...envelope.auth,
+        ...(envelope.auth.credential !== undefined && { credential: REDACTED }),
+      },
+    }),
+  };
+  logger.info("opencall.call", fields);
+}
+
+/**
+ * Emit the error record for an error thrown by a handler: `error` level for
+ * unexpected errors and 5xx OpenCALL errors, `warn` for the rest.
+ */
+export function logHandlerError(
+  logger: Logger,
+  call: { op: string; requestId: string },
+  err: unknown,
+): void {
+  const level = isOpenCallError(err) && err.httpStatus < 500 ? "warn" : "error";
+  logger[level]("opencall.error", { op: call.op, requestId: call.requestId, error: serializeError(err) });
+}
@@ -0,0 +1,183 @@
+import {
+  InvalidEnvelopeError,
+  MediaRequiredError,
+  MediaTooLargeError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  type MediaSchemaEntry,
+  type OpenCallErrorInstance,
+  type RequestEnvelope,
+} from "@opencall/types";
+
+/** Default maximum multipart/form-data request size: 32 MiB */
+export const DEFAULT_MAX_MULTIPART_BYTES = 32 * 1024 * 1024;
+
+/** Name of the multipart part carrying the JSON envelope */
+export const ENVELOPE_PART = "envelope";
+
+/** Uploaded media handed to the handler as `ctx.media`, keyed by media name */
+export type MediaFiles = Record<string, Blob>;
+
+/** Whether a request carries a multipart/form-data body */
+export function isMultipart(headers: Headers): boolean {
+  return /^multipart\/form-data\b/i.test(headers.get("content-type") ?? "");
+}
+
+/**
+ * Parse a multipart/form-data request: the `envelope` part holds the JSON
+ * envelope and every other file part is kept by field name for `media[].part`
+ * references. The body is streamed and rejected with 413 PAYLOAD_TOO_LARGE
+ * as soon as it exceeds maxBytes.
+ */
+export async function parseMultipart(
+  req: Request,
+  maxBytes: number,
+): Promise<
+  | { ok: true; envelope: unknown; parts: Map<string, Blob> }
+  | { ok: false; error: OpenCallErrorInstance }
+> {
+  let received = 0;
+  let exceeded = false;
+  const limited = req.body?.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > maxBytes) {
+          exceeded = true;
+          controller.error(new Error("multipart body too large"));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+
+  let form: FormData;
+  try {
+    form = await new Response(limited, {
+      headers: { "Content-Type": req.headers.get("content-type")! },
+    }).formData();
+  } catch {
+    if (exceeded) return { ok: false, error: new PayloadTooLargeError({ maxBodyBytes: maxBytes }) };
+    return {
+      ok: false,
+      error: new InvalidEnvelopeError({ reason: "Request body is not valid multipart/form-data" }),
+    };
+  }
+
+  const envelopePart = form.get(ENVELOPE_PART);
+  if (envelopePart === null) {
+    return {
+      ok: false,
+      error: new InvalidEnvelopeError({ reason: `Multipart body has no "${ENVELOPE_PART}" part` }),
+    };
+  }
+
+  let envelope: unknown;
+  try {
+    envelope = JSON.parse(typeof envelopePart === "string" ? envelopePart : await envelopePart.text());
+  } catch {
+    return {
+      ok: false,
+      error: new InvalidEnvelopeError({ reason: `The "${ENVELOPE_PART}" part is not valid JSON` }),
+    };
+  }
+
+  const parts = new Map<string, Blob>();
+  form.forEach((value, name) => {
+    if (name !== ENVELOPE_PART && typeof value !== "string") parts.set(name, value);
+  });
+  return { ok: true, envelope, parts };
+}
+
+/** A MIME type without parameters, lowercased */
+function essence(mimeType: string): string {
+  return mimeType.split(";")[0]!.trim().toLowerCase();
+}
+
+/** Match a MIME type against an accepted type, which may be a `type/*` or `*\/*` wildcard */
+function matchesType(accepted: string, mimeType: string): boolean {
+  const [type, subtype] = essence(mimeType).split("/");
+  const [acceptedType, acceptedSubtype] = accepted.trim().toLowerCase().split("/");
+  return (
+    (acceptedType === "*" || acceptedType === type) &&
+    (acceptedSubtype === "*" || acceptedSubtype === subtype)
+  );
+}
+
+/**
+ * Resolve the envelope's `media` against the uploaded parts and enforce the
+ * operation's `mediaSchema`:
+ *
+ * - 400 INVALID_ENVELOPE when a `media[].part` names no uploaded part
+ * - 415 UNSUPPORTED_MEDIA_TYPE when an uploaded part's own type is not the
+ *   declared `mimeType`; untyped and `application/octet-stream` parts are
+ *   not checked
+ * - 400 MEDIA_REQUIRED when a `required` entry is absent from `media`
+ * - 415 UNSUPPORTED_MEDIA_TYPE when `mimeType` is not in `acceptedTypes`
+ * - 413 MEDIA_TOO_LARGE when an uploaded part exceeds `maxBytes`
+ *
+ * Returns the uploaded media keyed by name, typed with the declared
+ * `mimeType`. Media given by `ref` are not fetched and are not included.
+ */
+export function resolveMedia(
+  schema: MediaSchemaEntry[] | undefined,
+  media: RequestEnvelope["media"],
+  parts: Map<string, Blob> | undefined,
+): { ok: true; files: MediaFiles } | { ok: false; error: OpenCallErrorInstance } {
+  const files: MediaFiles = {};
+  for (const item of media ?? []) {
+    if (item.part === undefined) continue;
+    const blob = parts?.get(item.part);
+    if (!blob) {
+      return {
+        ok: false,
+        error: new InvalidEnvelopeError({
+          reason: `media "${item.name}" references missing part "${item.part}"`,
+        }),
+      };
+    }
+    const partType = essence(blob.type);
+    if (partType !== "" && partType !== "application/octet-stream" && partType !== essence(item.mimeType)) {
+      return {
+        ok: false,
+        error: new UnsupportedMediaTypeError({
+          name: item.name,
+          mimeType: item.mimeType,
+          partType: blob.type,
+        }),
+      };
+    }
+    files[item.name] = blob.slice(0, blob.size, item.mimeType);
+  }
+
+  for (const rule of schema ?? []) {
+    const item = media?.find((m) => m.name === rule.name);
+    if (!item) {
+      if (rule.required) return { ok: false, error: new MediaRequiredError({ name: rule.name }) };
+      continue;
+    }
+
+    const acceptedTypes = rule.acceptedTypes ?? [];
+    if (acceptedTypes.length > 0 && !acceptedTypes.some((t) => matchesType(t, item.mimeType))) {
+      return {
+        ok: false,
+        error: new UnsupportedMediaTypeError({
+          name: rule.name,
+          mimeType: item.mimeType,
+          acceptedTypes,
+        }),
+      };
+    }
+
+    const file = files[rule.name];
+    if (file && rule.maxBytes !== undefined && file.size > rule.maxBytes) {
+      return {
+        ok: false,
+        error: new MediaTooLargeError({ name: rule.name, size: file.size, maxBytes: rule.maxBytes }),
+      };
+    }
+  }
+
+  return { ok: true, files };
+}
@@ -0,0 +1,158 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import {
+  InternalError,
+  PayloadTooLargeError,
+  type OpenCallErrorInstance,
+} from "@opencall/types";
+import {
+  createFetchHandler,
+  DEFAULT_MAX_BODY_BYTES,
+  type FetchHandlerOptions,
+} from "./fetch-handler.js";
+import { DEFAULT_MAX_MULTIPART_BYTES, isMultipart } from "./media.js";
+import { formatError } from "./validate.js";
+
+/** Options for createNodeHandler — the same options as createFetchHandler */
+export type NodeHandlerOptions = FetchHandlerOptions;
+
+/** A listener for node:http createServer() */
+export type NodeHandler = (req: IncomingMessage, res: ServerResponse) => void;
+
+class BodyTooLarge extends Error {}
+
+/** Buffer the request body, aborting as soon as it exceeds maxBodyBytes */
+async function readBody(req: IncomingMessage, maxBodyBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buf = chunk as Buffer;
+    size += buf.byteLength;
+    if (size > maxBodyBytes) throw new BodyTooLarge();
+    chunks.push(buf);
+  }
+  return Buffer.concat(chunks);
+}
+
+function toHeaders(req: IncomingMessage): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    for (const v of Array.isArray(value) ? value : [value]) headers.append(name, v);
+  }
+  return headers;
+}
+
+/** Resolve once `res` can take more data, or has closed */
+function writable(res: ServerResponse): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+/**
+ * Copy a Fetch Response onto `res`, waiting for `drain` whenever the socket
+ * buffer is full. A client that disconnects cancels the body, so a stream's
+ * producer stops rather than running on until it expires.
+ */
+async function writeResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const cancel = () => void reader.cancel().catch(() => {});
+  res.on("close", cancel);
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done || res.destroyed) break;
+      if (!res.write(value)) await writable(res);
+    }
+  } finally {
+    res.off("close", cancel);
+  }
+  if (res.destroyed) {
+    cancel();
+    return;
+  }
+  res.end();
+}
+
+function writeDispatchError(res: ServerResponse, err: OpenCallErrorInstance): void {
+  const { status, body } = formatError(err, crypto.randomUUID());
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Create a node:http request listener serving the same routes as
+ * createFetchHandler(). The incoming request is converted to a Fetch-API
+ * Request and routed through the fetch handler, so behavior is identical
+ * across Node, Bun and edge runtimes.
+ *
+ * The body is streamed with `maxBodyBytes` (`maxMultipartBytes` for
+ * multipart/form-data) enforced as it arrives; oversize requests are
+ * rejected with 413 PAYLOAD_TOO_LARGE without buffering the rest.
+ * A client that disconnects before the response is written aborts the
+ * Request's signal, cancelling the handler as with createFetchHandler; one
+ * that disconnects from a streamed response cancels the response body.
+ *
+ * ```
+ * const built = await buildRegistry({ opsDir: "./src/operations" })
+ * createServer(createNodeHandler(built)).listen(3000)
+ * ```
+ */
+export function createNodeHandler(options: NodeHandlerOptions): NodeHandler {
+  const handle = createFetchHandler(options);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const maxMultipartBytes = options.maxMultipartBytes ?? DEFAULT_MAX_MULTIPART_BYTES;
+
+  async function listen(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method ?? "GET";
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    const hasBody = method !== "GET" && method !== "HEAD";
+    const headers = toHeaders(req);
+
+    let body: Buffer | undefined;
+    if (hasBody) {
+      const limit = isMultipart(headers) ? maxMultipartBytes : maxBodyBytes;
+      try {
+        body = await readBody(req, limit);
+      } catch (err) {
+        if (!(err instanceof BodyTooLarge)) throw err;
+        res.setHeader("Connection", "close");
+        writeDispatchError(res, new PayloadTooLargeError({ maxBodyBytes: limit }));
+        return;
+      }
+    }
+
+    const disconnected = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) disconnected.abort();
+    });
+    const response = await handle(
+      new Request(url, { method, headers, body, signal: disconnected.signal }),
+    );
+    await writeResponse(res, response);
+  }
+
+  return (req, res) => {
+    listen(req, res).catch((err: unknown) => {
+      if (res.headersSent) {
+        res.destroy(err instanceof Error ? err : undefined);
+        return;
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      writeDispatchError(res, new InternalError({ message }));
+    });
+  };
+}
@@ -0,0 +1,133 @@
+import type { z } from "zod/v4";
+import type { CachePolicy } from "@opencall/types";
+import { sha256Hex, stableStringify } from "./hash.js";
+import type { DispatchResult } from "./validate.js";
+
+/** The parts of a Zod schema definition read when coercing query values */
+interface SchemaDef {
+  type: string;
+  innerType?: z.ZodType;
+  in?: z.ZodType;
+  getter?: () => z.ZodType;
+  element?: z.ZodType;
+  shape?: Record<string, z.ZodType>;
+  options?: z.ZodType[];
+  values?: unknown[];
+}
+
+function defOf(schema: z.ZodType): SchemaDef {
+  return (schema as unknown as { _zod: { def: SchemaDef } })._zod.def;
+}
+
+/** Strip wrappers (optional, default, pipe, lazy, ...) that do not change the value's type */
+function unwrap(schema: z.ZodType): { def: SchemaDef; nullable: boolean } {
+  let nullable = false;
+  let def = defOf(schema);
+  for (;;) {
+    if (def.type === "nullable") nullable = true;
+    const inner = def.innerType ?? def.in ?? def.getter?.();
+    if (!inner || def.type === "array") return { def, nullable };
+    def = defOf(inner);
+  }
+}
+
+/** Coerce one query-string value to the type the schema expects; values that cannot be coerced are left as strings */
+function coerceValue(schema: z.ZodType, value: string): unknown {
+  const { def, nullable } = unwrap(schema);
+  if (nullable && value === "null") return null;
+
+  switch (def.type) {
+    case "number": {
+      const n = Number(value);
+      return value.trim() !== "" && !Number.isNaN(n) ? n : value;
+    }
+    case "bigint":
+      try {
+        return BigInt(value);
+      } catch {
+        return value;
+      }
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    case "null":
+      return value === "null" ? null : value;
+    case "date":
+      return new Date(value);
+    case "literal":
+      return def.values?.find((v) => String(v) === value) ?? value;
+    case "union":
+      for (const option of def.options ?? []) {
+        const coerced = coerceValue(option, value);
+        if (option.safeParse(coerced).success) return coerced;
+      }
+      return value;
+    case "object":
+    case "record":
+    case "tuple":
+    case "array":
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Build `args` for a path-mode call from the query string, coercing each
+ * value to the type its field in the `args` schema expects:
+ *
+ * - numbers, bigints, booleans (`true` / `false`) and `null` for nullable fields
+ * - arrays from repeated keys (`?tag=a&tag=b`), each element coerced
+ * - objects, records and tuples from a JSON-encoded value
+ *
+ * Keys absent from the schema, and values that cannot be coerced, are passed
+ * through as strings so argument validation reports them.
+ */
+export function coerceQueryArgs(schema: z.ZodType, params: URLSearchParams): Record<string, unknown> {
+  const { def } = unwrap(schema);
+  const shape = def.type === "object" ? (def.shape ?? {}) : {};
+  const args: Record<string, unknown> = {};
+
+  for (const key of new Set(params.keys())) {
+    const field = shape[key];
+    if (!field) {
+      args[key] = params.get(key);
+      continue;
+    }
+    const values = params.getAll(key);
+    const { def: fieldDef } = unwrap(field);
+    args[key] =
+      fieldDef.type === "array" && fieldDef.element
+        ? values.map((v) => coerceValue(fieldDef.element!, v))
+        : coerceValue(field, values[0]!);
+  }
+  return args;
+}
+
+/**
+ * HTTP caching headers for a path-mode response. `complete` 200 responses
+ * of operations with an enabled CachePolicy and a `ttl` get
+ * `Cache-Control: max-age=ttl` (`public` scope shareable, `private` and
+ * `tenant` scopes `private` and varying on `Authorization`) and a weak
+ * `ETag` of the result; everything else is `no-store`.
+ */
+export async function pathCacheHeaders(
+  policy: CachePolicy | undefined,
+  result: DispatchResult,
+): Promise<Record<string, string>> {
+  if (!policy?.enabled || !policy.ttl || result.status !== 200 || result.body.state !== "complete") {
+    return { "Cache-Control": "no-store" };
+  }
+
+  const shared = policy.scope === "public";
+  const variesOnAuth = !shared || (policy.vary ?? []).some((path) => path.startsWith("auth."));
+  const digest = await sha256Hex(stableStringify(result.body.result ?? result.body.location ?? null));
+  return {
+    "Cache-Control": `${shared ? "public" : "private"}, max-age=${policy.ttl}`,
+    ETag: `W/"${digest}"`,
+    ...(variesOnAuth && { Vary: "Authorization" }),
+  };
+}
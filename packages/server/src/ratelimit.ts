@@ -0,0 +1,105 @@
+import type { RateLimitPolicy } from "@opencall/types";
+
+/** Outcome of taking a token from a rate limit bucket */
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Whole tokens left in the bucket after this call */
+  remaining: number;
+  /** Milliseconds until the next token is available; 0 when allowed */
+  retryAfterMs: number;
+}
+
+/** Storage backend for token buckets, keyed by operation and subject */
+export interface RateLimitStore {
+  /** Refill the bucket for key under policy and take one token if available */
+  take(key: string, policy: RateLimitPolicy): Promise<RateLimitDecision>;
+}
+
+const WINDOW_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  sec: 1000,
+  second: 1000,
+  m: 60_000,
+  min: 60_000,
+  minute: 60_000,
+  h: 3_600_000,
+  hour: 3_600_000,
+  d: 86_400_000,
+  day: 86_400_000,
+};
+
+/**
+ * Parse a `@rateLimit` tag value: `{limit}/{window} [per=subject|global]`,
+ * where window is an optionally counted unit (`ms`, `s`, `min`, `hour`,
+ * `day`, ...), e.g. `100/min per=subject` or `10/30s per=global`. `per`
+ * defaults to `subject`. Returns undefined for malformed values.
+ */
+export function parseRateLimit(value: string | undefined): RateLimitPolicy | undefined {
+  const tokens = value?.trim().split(/\s+/) ?? [];
+  const match = tokens[0]?.match(/^(\d+)\/(\d*)([a-z]+)$/i);
+  const unit = match && WINDOW_UNITS[match[3]!.toLowerCase()];
+  if (!match || !unit) return undefined;
+
+  const perToken = tokens.find((token) => token.startsWith("per="))?.slice(4);
+  const limit = parseInt(match[1]!, 10);
+  const windowMs = (match[2] ? parseInt(match[2], 10) : 1) * unit;
+  if (limit <= 0 || windowMs <= 0) return undefined;
+
+  return { limit, windowMs, per: perToken === "global" ? "global" : "subject" };
+}
+
+/**
+ * The bucket key for a call: one bucket per operation, per subject with
+ * `per: "subject"`. Anonymous callers share a single bucket; so do callers
+ * identified only by the default envelopeAuthenticator, whose subject is
+ * unverified and left out by the dispatcher.
+ */
+export function rateLimitKey(op: string, policy: RateLimitPolicy, subject?: string): string {
+  return JSON.stringify(policy.per === "subject" ? [op, subject ?? null] : [op]);
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  policy: RateLimitPolicy;
+}
+
+/** Buckets held by the in-memory store before the least recently used are evicted */
+const MAX_BUCKETS = 10_000;
+
+function refill(bucket: Bucket, now: number): void {
+  const rate = bucket.policy.limit / bucket.policy.windowMs;
+  bucket.tokens = Math.min(bucket.policy.limit, bucket.tokens + (now - bucket.updatedAt) * rate);
+  bucket.updatedAt = now;
+}
+
+/**
+ * In-memory token-bucket RateLimitStore. Each bucket holds up to `limit`
+ * tokens and refills continuously at `limit` per `windowMs`. At most 10,000
+ * buckets are held; beyond that the least recently used bucket is evicted.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    async take(key, policy) {
+      const now = Date.now();
+      const bucket = buckets.get(key) ?? { tokens: policy.limit, updatedAt: now, policy };
+      bucket.policy = policy;
+      refill(bucket, now);
+      // Re-insert so the Map's order runs from least to most recently used
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      if (buckets.size > MAX_BUCKETS) buckets.delete(buckets.keys().next().value!);
+
+      if (bucket.tokens < 1) {
+        const rate = policy.limit / policy.windowMs;
+        return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - bucket.tokens) / rate) };
+      }
+
+      bucket.tokens -= 1;
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+    },
+  };
+}
@@ -6,12 +6,14 @@ import {
 import { join, extname } from "node:path";
 import { createHash as nodeCreateHash } from "node:crypto";
 import { parseJSDoc } from "./jsdoc.js";
+import { parseRateLimit } from "./ratelimit.js";
 import type {
   CachePolicy,
   ExecutionModel,
   IdempotencyPolicy,
   MediaSchemaEntry,
   OperationModule,
+  RateLimitPolicy,
   RegistryEndpoint,
   RegistryEntry,
   RegistryResponse,
@@ -64,6 +66,9 @@ export interface ModuleMeta {
   idempotency?: Partial<IdempotencyPolicy>;
   telemetry?: Partial<TelemetryPolicy>;
   stream?: StreamPolicy;
+  rateLimit?: RateLimitPolicy;
+  /** Error codes from the `@errors` tag, added to those of the module's `errors` export */
+  errors?: string[] | string;
   flags?: string;
   sunset?: string;
   replacement?: string;
@@ -104,8 +109,11 @@ interface RegistryModuleShape {
   args: z.ZodType;
   result?: z.ZodType;
   handler: OperationModule["handler"];
+  requiresAuth?: boolean;
   mediaSchema?: MediaSchemaEntry[];
   frameSchema?: z.ZodType;
+  inboundSchema?: z.ZodType;
+  errors?: OperationModule["errors"];
 }
 
 // ── Shared helpers ───────────────────────────────────────────────────────
@@ -258,6 +266,18 @@ function parseStreamPolicy(tags: Record<string, string | undefined>): StreamPoli
   };
 }
 
+/** Codes of the module's `errors` export and the `@errors` tag, deduplicated and sorted */
+function parseDeclaredErrors(
+  mod: RegistryModuleShape,
+  tags: Record<string, string | undefined>,
+): string[] {
+  const codes = new Set(splitList(tags["errors"]));
+  for (const error of Array.isArray(mod.errors) ? mod.errors : []) {
+    if (error?.__opencall === true && typeof error.code === "string") codes.add(error.code);
+  }
+  return [...codes].sort();
+}
+
 /** Build a RegistryEntry from a module's Zod schemas and parsed metadata tags */
 function buildEntry(
   mod: RegistryModuleShape,
@@ -270,6 +290,8 @@ function buildEntry(
   const telemetry = parseTelemetryPolicy(tags);
   const stream = parseStreamPolicy(tags);
   const idempotency = parseIdempotencyPolicy(tags, sideEffecting);
+  const rateLimit = parseRateLimit(tags["rateLimit"]);
+  const errors = parseDeclaredErrors(mod, tags);
 
   const entry: RegistryEntry = {
     op: tags["op"]!,
@@ -287,6 +309,8 @@ function buildEntry(
     ...(cache && { cache }),
     ...(telemetry && { telemetry }),
     ...(stream && { stream }),
+    ...(rateLimit && { rateLimit }),
+    ...(errors.length > 0 && { errors }),
   };
 
   if (executionModel === "async") {
@@ -302,7 +326,7 @@ function buildEntry(
   return entry;
 }
 
-/** Build an OperationModule with sunset/replacement metadata */
+/** Build an OperationModule with auth and sunset/replacement metadata */
 function buildOpModule(
   mod: RegistryModuleShape,
   tags: Record<string, string | undefined>,
@@ -312,6 +336,10 @@ function buildOpModule(
     result: mod.result ?? z.any(),
     handler: mod.handler,
   };
+  if (mod.requiresAuth) opModule.requiresAuth = true;
+  if (mod.frameSchema) opModule.frameSchema = mod.frameSchema;
+  if (mod.inboundSchema) opModule.inboundSchema = mod.inboundSchema;
+  if (Array.isArray(mod.errors)) opModule.errors = mod.errors;
   if (tags["sunset"]) opModule.sunset = tags["sunset"];
   if (tags["replacement"]) opModule.replacement = tags["replacement"];
   return opModule;
@@ -501,6 +529,10 @@ export function buildRegistryFromModules(
             .filter(Boolean)
             .join(" ")
         : undefined,
+      rateLimit: meta.rateLimit
+        ? `${meta.rateLimit.limit}/${meta.rateLimit.windowMs}ms per=${meta.rateLimit.per}`
+        : undefined,
+      errors: Array.isArray(meta.errors) ? meta.errors.join(",") : meta.errors,
       flags: meta.flags,
       sunset: meta.sunset ?? mod.sunset,
       replacement: meta.replacement ?? mod.replacement,
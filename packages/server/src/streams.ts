@@ -0,0 +1,296 @@
+import type { OperationResult, StreamPolicy } from "@opencall/types";
+import type { z } from "zod/v4";
+import { sha256Hex } from "./hash.js";
+
+/** Session lifetime when the operation publishes no StreamPolicy: 1 hour */
+export const DEFAULT_STREAM_TTL_SECONDS = 3600;
+
+/** Transports the server can deliver frames over, in order of preference */
+export const STREAM_TRANSPORTS = ["sse", "websocket"] as const;
+
+/** Frames returned by a handler, optionally driven by the subscriber's inbound messages */
+export type StreamFrames = NonNullable<OperationResult["frames"]>;
+
+/** A stream allocated for a handler's frames, served at /streams/{sessionId} */
+export interface StreamSession {
+  sessionId: string;
+  op: string;
+  /** Subject of the principal that opened the stream */
+  subject?: string;
+  /** The transport named in the descriptor: "sse" or "websocket" */
+  transport: (typeof STREAM_TRANSPORTS)[number];
+  /** Credential the subscriber must present, issued in the descriptor's `auth` */
+  credential?: string;
+  frames: StreamFrames;
+  /** Schema each frame is validated against before delivery */
+  frameSchema?: z.ZodType;
+  /** Schema each inbound message is validated against (websocket only) */
+  inboundSchema?: z.ZodType;
+  /** Attach a `sha256:` checksum of each frame's JSON */
+  frameIntegrity: boolean;
+  /** Epoch milliseconds at which the session is closed */
+  expiresAt: number;
+}
+
+/**
+ * Holds open stream sessions until a subscriber connects. Frames are live
+ * iterables, so sessions are process-local and each can be consumed once.
+ */
+export interface StreamSessionManager {
+  /** Allocate a session for a handler's frames */
+  open(session: Omit<StreamSession, "sessionId">): StreamSession;
+  /** Look up a session, or undefined if unknown, consumed or expired */
+  get(sessionId: string): StreamSession | undefined;
+  /** Remove a session once a subscriber has taken it */
+  close(sessionId: string): void;
+}
+
+/** In-memory StreamSessionManager */
+export function createStreamSessionManager(): StreamSessionManager {
+  const sessions = new Map<string, StreamSession>();
+
+  function purge(): void {
+    const now = Date.now();
+    for (const [sessionId, session] of sessions) {
+      if (session.expiresAt <= now) sessions.delete(sessionId);
+    }
+  }
+
+  return {
+    open(session) {
+      purge();
+      const opened = { ...session, sessionId: crypto.randomUUID() };
+      sessions.set(opened.sessionId, opened);
+      return opened;
+    },
+
+    get(sessionId) {
+      const session = sessions.get(sessionId);
+      if (session && session.expiresAt <= Date.now()) {
+        sessions.delete(sessionId);
+        return undefined;
+      }
+      return session;
+    },
+
+    close(sessionId) {
+      sessions.delete(sessionId);
+    },
+  };
+}
+
+/** The subscription URI for a stream session */
+export function streamLocation(sessionId: string): string {
+  return `/streams/${encodeURIComponent(sessionId)}`;
+}
+
+/**
+ * Open a session for a handler's `frames` and return the `streaming` result
+ * with its descriptor filled in.
+ *
+ * The transport is the first of the StreamPolicy's `supportedTransports` the
+ * server implements (`sse` when none are listed); frames that read inbound
+ * messages require `websocket`, which also gets a bearer credential in the
+ * descriptor's `auth`. Frames are JSON encoded, so the policy must allow
+ * `json` when it lists encodings. The session expires after the policy's
+ * `ttlSeconds`.
+ */
+export function openStream(
+  streams: StreamSessionManager,
+  policy: StreamPolicy | undefined,
+  stream: {
+    op: string;
+    subject?: string;
+    frames: StreamFrames;
+    frameSchema?: z.ZodType;
+    inboundSchema?: z.ZodType;
+  },
+): OperationResult {
+  const bidirectional = typeof stream.frames === "function";
+  const candidates = bidirectional ? (["websocket"] as const) : STREAM_TRANSPORTS;
+  const listed = policy?.supportedTransports ?? [];
+  const transport =
+    listed.length > 0
+      ? candidates.find((name) => listed.includes(name))
+      : candidates[0];
+  if (!transport) {
+    throw new Error(`${stream.op}: no supported stream transport in [${listed.join(", ")}]`);
+  }
+  const encodings = policy?.supportedEncodings ?? [];
+  if (encodings.length > 0 && !encodings.includes("json")) {
+    throw new Error(`${stream.op}: no supported stream encoding in [${encodings.join(", ")}]`);
+  }
+
+  const ttlSeconds = policy?.ttlSeconds || DEFAULT_STREAM_TTL_SECONDS;
+  const session = streams.open({
+    ...stream,
+    transport,
+    ...(transport === "websocket" && { credential: crypto.randomUUID() }),
+    frameIntegrity: policy?.frameIntegrity === true,
+    expiresAt: Date.now() + ttlSeconds * 1000,
+  });
+  const expiresAt = Math.floor(session.expiresAt / 1000);
+
+  return {
+    state: "streaming",
+    stream: {
+      transport,
+      encoding: "json",
+      schema: stream.op,
+      location: streamLocation(session.sessionId),
+      sessionId: session.sessionId,
+      expiresAt,
+      ...(session.credential !== undefined && {
+        auth: { credentialType: "bearer", credential: session.credential, expiresAt },
+      }),
+    },
+    expiresAt,
+  };
+}
+
+/** The data of a `frame` event: the frame's position, its validated payload and optional checksum */
+export interface StreamFrameEvent {
+  seq: number;
+  frame: unknown;
+  checksum?: string;
+}
+
+/**
+ * Validate a frame against the session's `frameSchema` and wrap it for
+ * delivery, adding a `sha256:` checksum of the frame's JSON when the session
+ * has `frameIntegrity`.
+ */
+export async function formatFrame(
+  session: StreamSession,
+  frame: unknown,
+  seq: number,
+): Promise<
+  | { ok: true; event: StreamFrameEvent }
+  | { ok: false; error: { code: string; message: string; cause?: unknown } }
+> {
+  let payload = frame;
+  if (session.frameSchema) {
+    const parsed = session.frameSchema.safeParse(frame);
+    if (!parsed.success) {
+      return {
+        ok: false,
+        error: {
+          code: "FRAME_VALIDATION_FAILED",
+          message: `Frame ${seq} of ${session.op} does not match its frameSchema`,
+          cause: {
+            issues: parsed.error.issues.map((i) => ({
+              path: (i.path as (string | number)[]).join("."),
+              message: i.message,
+            })),
+          },
+        },
+      };
+    }
+    payload = parsed.data;
+  }
+
+  const event: StreamFrameEvent = { seq, frame: payload };
+  if (session.frameIntegrity) {
+    event.checksum = `sha256:${await sha256Hex(JSON.stringify(payload))}`;
+  }
+  return { ok: true, event };
+}
+
+/** An event delivered to a stream subscriber */
+export interface StreamEvent {
+  event: "frame" | "end" | "error";
+  data: unknown;
+  /** Sequence number of a `frame` event */
+  id?: number;
+}
+
+/**
+ * Drive a session's frames, yielding one `frame` event per valid frame and
+ * finishing with `end` (`reason` "complete", or "expired" at the session's
+ * `expiresAt`) or `error` when a frame fails validation or the frame source
+ * throws. Aborting `signal` stops without a final event.
+ */
+export async function* streamEvents(
+  session: StreamSession,
+  inbound: AsyncIterable<unknown>,
+  signal?: AbortSignal,
+): AsyncGenerator<StreamEvent> {
+  const frames = typeof session.frames === "function" ? session.frames(inbound) : session.frames;
+  const iterator = frames[Symbol.asyncIterator]();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const stopped = new Promise<"expired" | "aborted">((resolve) => {
+    timer = setTimeout(() => resolve("expired"), Math.max(0, session.expiresAt - Date.now()));
+    signal?.addEventListener("abort", () => resolve("aborted"), { once: true });
+  });
+
+  try {
+    for (let seq = 0; ; seq++) {
+      let next: IteratorResult<unknown> | "expired" | "aborted";
+      try {
+        next = await Promise.race([iterator.next(), stopped]);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        yield { event: "error", data: { code: "INTERNAL_ERROR", message } };
+        return;
+      }
+
+      if (next === "aborted") return;
+      if (next === "expired") {
+        yield { event: "end", data: { reason: "expired" } };
+        return;
+      }
+      if (next.done) {
+        yield { event: "end", data: { reason: "complete" } };
+        return;
+      }
+
+      const formatted = await formatFrame(session, next.value, seq);
+      if (!formatted.ok) {
+        yield { event: "error", data: formatted.error };
+        return;
+      }
+      yield { event: "frame", data: formatted.event, id: seq };
+    }
+  } finally {
+    clearTimeout(timer);
+    void iterator.return?.();
+  }
+}
+
+async function* noInbound(): AsyncIterable<unknown> {}
+
+/**
+ * Serve a session's frames as `text/event-stream`, one SSE event per
+ * StreamEvent with its data as JSON.
+ */
+export function serveSse(session: StreamSession): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  const events = streamEvents(session, noInbound(), abort.signal);
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await events.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      const id = value.id !== undefined ? `id: ${value.id}\n` : "";
+      controller.enqueue(
+        encoder.encode(`event: ${value.event}\n${id}data: ${JSON.stringify(value.data)}\n\n`),
+      );
+    },
+
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
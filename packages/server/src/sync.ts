@@ -0,0 +1,86 @@
+import { OperationTimeoutError, type Logger, type SyncPolicy } from "@opencall/types";
+import {
+  DEFAULT_JOB_TTL_SECONDS,
+  DEFAULT_RETRY_AFTER_MS,
+  acceptJob,
+  type JobStore,
+} from "./jobs.js";
+import { formatError, type DispatchResult } from "./validate.js";
+
+const TIMED_OUT = Symbol("timed out");
+
+/**
+ * Race a sync operation against its time budget — the smaller of the
+ * policy's `maxMs` and the caller's `ctx.timeoutMs` — and apply the
+ * policy's `onTimeout` behavior when the budget runs out:
+ *
+ * - `fail` — 504 OPERATION_TIMEOUT
+ * - `retry` — 202 `pending` with `retryAfterMs`; the caller should retry the call
+ * - `escalate` — the handler keeps running as a background job and the caller
+ *   gets 202 `accepted` with a pollable `location` at /ops/{requestId}.
+ *   Without a job store, escalation falls back to `fail`.
+ *
+ * Unless the call escalates, the abandoned handler's `controller` is aborted
+ * with OPERATION_TIMEOUT. An escalation whose requestId already belongs to a
+ * job is refused with 409 REQUEST_ID_CONFLICT and aborted the same way.
+ */
+export async function runWithSyncPolicy(
+  policy: SyncPolicy,
+  call: {
+    op: string;
+    requestId: string;
+    sessionId?: string;
+    subject?: string;
+    timeoutMs?: number;
+    locale?: string;
+    controller?: AbortController;
+    logger?: Logger;
+  },
+  jobs: JobStore | undefined,
+  run: () => Promise<DispatchResult>,
+): Promise<DispatchResult> {
+  const budgetMs = Math.min(policy.maxMs, call.timeoutMs ?? Infinity);
+  const pending = run();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const outcome = await Promise.race([
+    pending,
+    new Promise<typeof TIMED_OUT>((resolve) => {
+      timer = setTimeout(() => resolve(TIMED_OUT), budgetMs);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  if (outcome !== TIMED_OUT) return outcome;
+
+  const { op, requestId, sessionId } = call;
+
+  if (policy.onTimeout === "escalate" && jobs) {
+    const accepted = await acceptJob(
+      jobs,
+      { requestId, sessionId, op, subject: call.subject, ttlSeconds: DEFAULT_JOB_TTL_SECONDS },
+      () => pending,
+      call.logger,
+    );
+    // The requestId already belongs to another job, so this call cannot continue as one
+    if (accepted.status === 409) call.controller?.abort(new OperationTimeoutError({ op, timeoutMs: budgetMs }));
+    return accepted;
+  }
+
+  const timeoutError = new OperationTimeoutError({ op, timeoutMs: budgetMs });
+  call.controller?.abort(timeoutError);
+
+  if (policy.onTimeout === "retry") {
+    return {
+      status: 202,
+      body: {
+        requestId,
+        ...(sessionId !== undefined && { sessionId }),
+        state: "pending",
+        retryAfterMs: DEFAULT_RETRY_AFTER_MS,
+      },
+    };
+  }
+
+  return formatError(timeoutError, requestId, sessionId, call.locale);
+}
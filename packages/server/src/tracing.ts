@@ -0,0 +1,214 @@
+import type { RequestEnvelope, TelemetryPolicy } from "@opencall/types";
+import type { DispatchResult } from "./validate.js";
+
+/** Value recorded for attributes listed in a TelemetryPolicy's `sensitive` */
+export const REDACTED = "[REDACTED]";
+
+/** Span status codes, numerically identical to OpenTelemetry's SpanStatusCode */
+export const SpanStatusCode = { UNSET: 0, OK: 1, ERROR: 2 } as const;
+export type SpanStatusCode = (typeof SpanStatusCode)[keyof typeof SpanStatusCode];
+
+export type SpanAttributeValue = string | number | boolean;
+
+/** W3C trace context identifying a span */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  traceFlags: number;
+}
+
+/** A span, shaped like OpenTelemetry's Span so OTel spans satisfy it directly */
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: SpanStatusCode; message?: string }): unknown;
+  end(): void;
+}
+
+/** Options for Tracer.startSpan */
+export interface StartSpanOptions {
+  attributes?: Record<string, SpanAttributeValue>;
+  /** The caller's span, parsed from `ctx.traceparent`; the new span continues its trace */
+  parent?: SpanContext;
+}
+
+/**
+ * Starts spans for dispatched calls. To bridge OpenTelemetry, start the span
+ * in a context carrying the parent:
+ *
+ * ```
+ * const otel = trace.getTracer("orders")
+ * const tracer: Tracer = {
+ *   startSpan: (name, { attributes, parent } = {}) =>
+ *     otel.startSpan(name, { kind: SpanKind.SERVER, attributes },
+ *       parent ? trace.setSpanContext(context.active(), parent) : context.active()),
+ * }
+ * ```
+ */
+export interface Tracer {
+  startSpan(name: string, options?: StartSpanOptions): Span;
+}
+
+/**
+ * Parse a W3C `traceparent` header value (`00-{traceId}-{spanId}-{flags}`).
+ * Returns undefined for malformed values and all-zero ids.
+ */
+export function parseTraceparent(traceparent: string | undefined): SpanContext | undefined {
+  const match = traceparent
+    ?.trim()
+    .toLowerCase()
+    .match(/^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/);
+  if (!match || match[1] === "ff") return undefined;
+  const [, , traceId, spanId, flags] = match;
+  if (/^0+$/.test(traceId!) || /^0+$/.test(spanId!)) return undefined;
+  return { traceId: traceId!, spanId: spanId!, traceFlags: parseInt(flags!, 16) };
+}
+
+/** Format a span context as a W3C `traceparent` header value */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags.toString(16).padStart(2, "0")}`;
+}
+
+/** A span captured by the in-memory tracer */
+export interface RecordedSpan {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  attributes: Record<string, SpanAttributeValue>;
+  status: { code: SpanStatusCode; message?: string };
+  ended: boolean;
+}
+
+/** A Tracer that keeps every span in memory, for tests */
+export interface MemoryTracer extends Tracer {
+  readonly spans: RecordedSpan[];
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** In-memory Tracer for tests: spans are appended to `spans` when started */
+export function createMemoryTracer(): MemoryTracer {
+  const spans: RecordedSpan[] = [];
+
+  return {
+    spans,
+
+    startSpan(name, options) {
+      const recorded: RecordedSpan = {
+        name,
+        traceId: options?.parent?.traceId ?? randomHex(16),
+        spanId: randomHex(8),
+        ...(options?.parent && { parentSpanId: options.parent.spanId }),
+        attributes: { ...options?.attributes },
+        status: { code: SpanStatusCode.UNSET },
+        ended: false,
+      };
+      spans.push(recorded);
+
+      return {
+        spanContext: () => ({
+          traceId: recorded.traceId,
+          spanId: recorded.spanId,
+          traceFlags: options?.parent?.traceFlags ?? 1,
+        }),
+        setAttribute(key, value) {
+          recorded.attributes[key] = value;
+        },
+        setStatus(status) {
+          recorded.status = status;
+        },
+        end() {
+          recorded.ended = true;
+        },
+      };
+    },
+  };
+}
+
+function resolvePath(root: unknown, path: string): unknown {
+  let value = root;
+  for (const segment of path.split(".")) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * The `args.*` span attributes for a call: each of the policy's `attributes`
+ * (an argument path, with or without the `args.` prefix) that is present in
+ * the arguments, with `sensitive` paths recorded as REDACTED.
+ */
+export function argAttributes(
+  policy: TelemetryPolicy | undefined,
+  args: unknown,
+): Record<string, SpanAttributeValue> {
+  const strip = (path: string) => path.replace(/^args\./, "");
+  const sensitive = new Set((policy?.sensitive ?? []).map(strip));
+  const attributes: Record<string, SpanAttributeValue> = {};
+
+  for (const path of (policy?.attributes ?? []).map(strip)) {
+    const value = resolvePath(args, path);
+    if (value === undefined) continue;
+    attributes[`args.${path}`] = sensitive.has(path)
+      ? REDACTED
+      : typeof value === "string" || typeof value === "number" || typeof value === "boolean"
+        ? value
+        : JSON.stringify(value);
+  }
+  return attributes;
+}
+
+/**
+ * Run a dispatch inside a span named by the policy's `spanName` (the op name
+ * when the operation has no TelemetryPolicy), continuing the caller's
+ * `ctx.traceparent`, and pass the span to `run`. The span records the op, requestId and `args.*`
+ * attributes, the response status and state, and the error code of `error`
+ * responses, which also set the span status to ERROR.
+ */
+export async function runTraced(
+  tracer: Tracer,
+  policy: TelemetryPolicy | undefined,
+  envelope: RequestEnvelope,
+  requestId: string,
+  run: (span: Span) => Promise<DispatchResult>,
+): Promise<DispatchResult> {
+  const parent = parseTraceparent(envelope.ctx?.traceparent);
+  const span = tracer.startSpan(policy?.spanName ?? envelope.op, {
+    attributes: {
+      "opencall.op": envelope.op,
+      "opencall.request_id": requestId,
+      ...argAttributes(policy, envelope.args),
+    },
+    ...(parent && { parent }),
+  });
+
+  try {
+    const result = await run(span);
+    span.setAttribute("opencall.status", result.status);
+    span.setAttribute("opencall.state", result.body.state);
+    if (result.body.state === "error") {
+      const code = result.body.error?.code ?? "UNKNOWN_ERROR";
+      span.setAttribute("opencall.error_code", code);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: code });
+    } else {
+      span.setStatus({ code: SpanStatusCode.OK });
+    }
+    return result;
+  } catch (err) {
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  } finally {
+    span.end();
+  }
+}
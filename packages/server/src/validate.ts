@@ -1,13 +1,19 @@
 import type { z } from "zod/v4";
 import { RequestEnvelopeSchema, type ResponseEnvelope } from "@opencall/types";
 import { domainError, isOpenCallError, protocolError } from "@opencall/types";
-import type { OperationModule, OperationResult } from "@opencall/types";
-import { isDbConnectionError } from "./db-errors.js";
+import type {
+  OpenCallErrorInstance,
+  OperationModule,
+  OperationResult,
+} from "@opencall/types";
+import { classifyError } from "./error-classifiers.js";
 
 /** Dispatch result returned to the server layer */
 export interface DispatchResult {
   status: number;
   body: ResponseEnvelope;
+  /** HTTP headers to send with the response, e.g. `Deprecation` and `Sunset` */
+  headers?: Record<string, string>;
 }
 
 /**
@@ -96,6 +102,33 @@ export function validateArgs(
   return { ok: true, data: argsResult.data };
 }
 
+/**
+ * Validate a handler's `result` against the operation's result schema.
+ *
+ * Returns the parsed result on success (unknown keys stripped), or the
+ * schema issues on failure.
+ */
+export function validateResult(
+  operation: OperationModule,
+  result: unknown
+):
+  | { ok: true; data: unknown }
+  | { ok: false; issues: { path: string; code: string; message: string }[] } {
+  const parsed = operation.result.safeParse(result);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      issues: parsed.error.issues.map((i) => ({
+        path: (i.path as (string | number)[]).join("."),
+        code: i.code,
+        message: i.message,
+      })),
+    };
+  }
+
+  return { ok: true, data: parsed.data };
+}
+
 /**
  * Check whether an operation has passed its sunset date.
  *
@@ -189,45 +222,65 @@ export function formatResponse(
   return { status, body };
 }
 
+/**
+ * Format a thrown OpenCALL error into a DispatchResult, using the error class
+ * metadata for the HTTP status and error code. The message is translated for
+ * `locale` (the envelope's `ctx.locale`) when the error defines `messages`.
+ */
+export function formatError(
+  err: OpenCallErrorInstance,
+  requestId: string,
+  sessionId?: string,
+  locale?: string,
+): DispatchResult {
+  const legacyCause =
+    err.cause === undefined &&
+    "service" in err &&
+    typeof err.service === "string"
+      ? { service: err.service, retriable: err.retryable }
+      : undefined;
+  const cause = err.cause ?? legacyCause;
+  // Errors from an older copy of @opencall/types carry the marker without localizedMessage
+  const message =
+    typeof err.localizedMessage === "function" ? err.localizedMessage(locale) : err.message;
+  return {
+    status: err.httpStatus,
+    body: {
+      requestId,
+      ...(sessionId !== undefined && { sessionId }),
+      state: "error",
+      error: {
+        code: err.code,
+        message,
+        ...(cause !== undefined && { cause }),
+      },
+      ...(err.httpStatus === 503 && { retryAfterMs: 60_000 }),
+    },
+  };
+}
+
 /**
  * Wrap a handler invocation, catching OpenCALL errors and unexpected errors
- * and converting them to proper DispatchResult responses.
+ * and converting them to proper DispatchResult responses, with OpenCALL error
+ * messages translated for `locale`.
  */
-export async function safeHandlerCall(
-  handler: (...args: unknown[]) => Promise<OperationResult>,
-  handlerArgs: unknown[],
+export async function safeHandlerCall<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<OperationResult>,
+  handlerArgs: Args,
   requestId: string,
-  sessionId?: string
+  sessionId?: string,
+  locale?: string
 ): Promise<DispatchResult> {
   try {
     const opResult = await handler(...handlerArgs);
     return formatResponse(opResult, requestId, sessionId);
   } catch (err) {
     if (isOpenCallError(err)) {
-      const legacyCause =
-        err.cause === undefined &&
-        "service" in err &&
-        typeof err.service === "string"
-          ? { service: err.service, retriable: err.retryable }
-          : undefined;
-      const cause = err.cause ?? legacyCause;
-      return {
-        status: err.httpStatus,
-        body: {
-          requestId,
-          ...(sessionId !== undefined && { sessionId }),
-          state: "error",
-          error: {
-            code: err.code,
-            message: err.message,
-            ...(cause !== undefined && { cause }),
-          },
-          ...(err.httpStatus === 503 && { retryAfterMs: 60_000 }),
-        },
-      };
+      return formatError(err, requestId, sessionId, locale);
     }
 
-    if (isDbConnectionError(err)) {
+    const failure = classifyError(err);
+    if (failure) {
       return {
         status: 503,
         body: {
@@ -236,12 +289,12 @@ export async function safeHandlerCall(
           state: "error",
           error: {
             code: "BACKEND_UNAVAILABLE",
-            message: "Database temporarily unavailable",
-            cause: { service: "postgres", retriable: true },
+            message: failure.message ?? "Backend temporarily unavailable",
+            cause: { service: failure.service, retriable: failure.retryable },
           },
-          retryAfterMs: 60_000,
+          ...(failure.retryAfterMs !== undefined && { retryAfterMs: failure.retryAfterMs }),
         },
-      }
+      };
     }
 
     const message = err instanceof Error ? err.message : String(err);
@@ -0,0 +1,229 @@
+import { AuthRequiredError, protocolError } from "@opencall/types";
+import { bearerToken } from "./auth.js";
+import { streamEvents, type StreamSession, type StreamSessionManager } from "./streams.js";
+import { formatError, type DispatchResult } from "./validate.js";
+
+/** Data attached to each upgraded socket */
+export interface StreamSocketData {
+  sessionId: string;
+}
+
+/** The subset of a server-side WebSocket used by the transport, e.g. Bun's `ServerWebSocket` */
+export interface StreamSocket {
+  readonly data: StreamSocketData;
+  send(message: string): unknown;
+  close(code?: number, reason?: string): unknown;
+}
+
+/** A server able to upgrade a request to a WebSocket, e.g. the `server` passed to Bun's `fetch` */
+export interface WebSocketUpgrader {
+  upgrade(req: Request, options: { data: StreamSocketData }): boolean;
+}
+
+/** Options for createWebSocketTransport */
+export interface WebSocketTransportOptions {
+  /** The stream manager shared with the dispatcher */
+  streams: StreamSessionManager;
+}
+
+/** Upgrade handling plus the socket callbacks for Bun's `websocket` option */
+export interface WebSocketTransport {
+  /**
+   * Upgrade `GET /streams/{sessionId}` for a `websocket` session. Returns
+   * undefined once upgraded, otherwise the error response to send.
+   */
+  upgrade(req: Request, server: WebSocketUpgrader): Response | undefined;
+  websocket: {
+    open(ws: StreamSocket): void;
+    message(ws: StreamSocket, message: string | Uint8Array): void;
+    close(ws: StreamSocket): void;
+  };
+}
+
+/** Close codes: normal closure, policy violation, internal error */
+const CLOSE_NORMAL = 1000;
+const CLOSE_POLICY_VIOLATION = 1008;
+const CLOSE_INTERNAL_ERROR = 1011;
+
+function jsonResponse({ status, body }: DispatchResult): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** A single-consumer async queue of inbound messages */
+function createInbox(): { push(message: unknown): void; end(): void; messages: AsyncIterable<unknown> } {
+  const queue: unknown[] = [];
+  let waiting: ((result: IteratorResult<unknown>) => void) | undefined;
+  let ended = false;
+
+  return {
+    push(message) {
+      if (waiting) {
+        waiting({ value: message, done: false });
+        waiting = undefined;
+      } else {
+        queue.push(message);
+      }
+    },
+
+    end() {
+      ended = true;
+      waiting?.({ value: undefined, done: true });
+      waiting = undefined;
+    },
+
+    messages: {
+      [Symbol.asyncIterator]: () => ({
+        next: () => {
+          if (queue.length > 0) return Promise.resolve({ value: queue.shift(), done: false });
+          if (ended) return Promise.resolve({ value: undefined, done: true });
+          return new Promise((resolve) => (waiting = resolve));
+        },
+      }),
+    },
+  };
+}
+
+/**
+ * Serve `websocket` stream sessions with Bun's native WebSocket server.
+ *
+ * The upgrade must present the credential issued in the descriptor's `auth`,
+ * as an `Authorization: Bearer` header or a `credential` query parameter.
+ * Each StreamEvent is sent as a JSON text message (`{ event, data, id? }`);
+ * inbound JSON messages are validated against the module's `inboundSchema`
+ * and handed to the handler's `frames(inbound)`. The socket closes when the
+ * frames end, when a frame or inbound message is invalid, and at the
+ * session's `expiresAt`.
+ *
+ * ```
+ * const streams = createStreamSessionManager()
+ * const handle = createFetchHandler({ ...built, streams })
+ * const sockets = createWebSocketTransport({ streams })
+ *
+ * Bun.serve({
+ *   fetch: (req, server) =>
+ *     req.headers.get("Upgrade") === "websocket" ? sockets.upgrade(req, server) : handle(req),
+ *   websocket: sockets.websocket,
+ * })
+ * ```
+ */
+export function createWebSocketTransport(options: WebSocketTransportOptions): WebSocketTransport {
+  const { streams } = options;
+  const upgraded = new Map<string, StreamSession>();
+  const connections = new Map<
+    string,
+    { session: StreamSession; inbox: ReturnType<typeof createInbox>; abort: AbortController }
+  >();
+
+  return {
+    upgrade(req, server) {
+      const url = new URL(req.url);
+      const match = url.pathname.match(/^\/streams\/([^/]+)$/);
+      const session = match ? streams.get(decodeURIComponent(match[1]!)) : undefined;
+      if (!session || session.transport !== "websocket") {
+        return jsonResponse(protocolError("NOT_FOUND", `No stream at ${url.pathname}`, 404));
+      }
+
+      const credential = bearerToken(req.headers) ?? url.searchParams.get("credential");
+      if (credential !== session.credential) {
+        return jsonResponse(
+          formatError(new AuthRequiredError({ op: session.op }), crypto.randomUUID()),
+        );
+      }
+
+      streams.close(session.sessionId);
+      upgraded.set(session.sessionId, session);
+      if (!server.upgrade(req, { data: { sessionId: session.sessionId } })) {
+        upgraded.delete(session.sessionId);
+        return jsonResponse(
+          protocolError("UPGRADE_FAILED", "WebSocket upgrade failed", 400),
+        );
+      }
+      return undefined;
+    },
+
+    websocket: {
+      open(ws) {
+        const session = upgraded.get(ws.data.sessionId);
+        upgraded.delete(ws.data.sessionId);
+        if (!session) {
+          ws.close(CLOSE_INTERNAL_ERROR, "unknown session");
+          return;
+        }
+
+        const connection = { session, inbox: createInbox(), abort: new AbortController() };
+        connections.set(session.sessionId, connection);
+
+        void (async () => {
+          let code = CLOSE_NORMAL;
+          try {
+            for await (const event of streamEvents(session, connection.inbox.messages, connection.abort.signal)) {
+              ws.send(JSON.stringify(event));
+              if (event.event === "error") code = CLOSE_INTERNAL_ERROR;
+            }
+          } catch (err) {
+            // A frame can pass frameSchema and still not serialize, e.g. one holding a bigint
+            const message = err instanceof Error ? err.message : String(err);
+            ws.send(JSON.stringify({ event: "error", data: { code: "INTERNAL_ERROR", message } }));
+            code = CLOSE_INTERNAL_ERROR;
+          }
+          if (!connection.abort.signal.aborted) ws.close(code);
+        })();
+      },
+
+      message(ws, message) {
+        const connection = connections.get(ws.data.sessionId);
+        if (!connection) return;
+
+        const reject = (reason: string, cause?: unknown) => {
+          ws.send(
+            JSON.stringify({
+              event: "error",
+              data: {
+                code: "INBOUND_VALIDATION_FAILED",
+                message: reason,
+                ...(cause !== undefined && { cause }),
+              },
+            }),
+          );
+          connection.abort.abort();
+          ws.close(CLOSE_POLICY_VIOLATION);
+        };
+
+        let payload: unknown;
+        try {
+          payload = JSON.parse(typeof message === "string" ? message : new TextDecoder().decode(message));
+        } catch {
+          reject("Inbound message is not valid JSON");
+          return;
+        }
+
+        const { inboundSchema } = connection.session;
+        if (inboundSchema) {
+          const parsed = inboundSchema.safeParse(payload);
+          if (!parsed.success) {
+            reject(`Inbound message does not match the inboundSchema of ${connection.session.op}`, {
+              issues: parsed.error.issues.map((i) => ({
+                path: (i.path as (string | number)[]).join("."),
+                message: i.message,
+              })),
+            });
+            return;
+          }
+          payload = parsed.data;
+        }
+        connection.inbox.push(payload);
+      },
+
+      close(ws) {
+        const connection = connections.get(ws.data.sessionId);
+        if (!connection) return;
+        connections.delete(ws.data.sessionId);
+        connection.inbox.end();
+        connection.abort.abort();
+      },
+    },
+  };
+}
@@ -0,0 +1,225 @@
+import { test, expect, describe } from "bun:test";
+import { Database } from "bun:sqlite";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createDispatcher,
+  createFetchHandler,
+  createMemoryJobStore,
+  createSqliteJobStore,
+  type Authenticator,
+  type JobStore,
+  type Logger,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const reportModule: OperationModule = {
+  args: z.object({ delayMs: z.number(), fail: z.boolean().optional() }),
+  result: z.object({ rows: z.number() }),
+  handler: async (input: unknown) => {
+    const { delayMs, fail } = input as { delayMs: number; fail?: boolean };
+    await sleep(delayMs);
+    if (fail) throw new Error("report failed");
+    return { state: "complete" as const, result: { rows: 42 } };
+  },
+};
+
+const built = buildRegistryFromModules([
+  { module: reportModule, meta: { op: "v1:reports.generate", execution: "async", ttl: 120 } },
+]);
+
+const REQUEST_ID = "550e8400-e29b-41d4-a716-446655440000";
+
+// ── Async dispatch ───────────────────────────────────────────────────────
+
+describe("createDispatcher async operations", () => {
+  test("returns accepted immediately and stores the result for ttlSeconds", async () => {
+    const jobs = createMemoryJobStore();
+    const dispatch = createDispatcher({ ...built, jobs });
+    const started = Date.now();
+    const res = await dispatch({
+      op: "v1:reports.generate",
+      args: { delayMs: 30 },
+      ctx: { requestId: REQUEST_ID },
+    });
+
+    expect(res.status).toBe(202);
+    expect(res.body.state).toBe("accepted");
+    expect(res.body.location?.uri).toBe(`/ops/${REQUEST_ID}`);
+    expect(res.body.retryAfterMs).toBeGreaterThan(0);
+    expect(Date.now() - started).toBeLessThan(30);
+
+    await sleep(60);
+    const job = await jobs.get(REQUEST_ID);
+    expect(job?.state).toBe("complete");
+    expect(job?.result?.body.result).toEqual({ rows: 42 });
+    expect(job!.expiresAt).toBeGreaterThan(Date.now() + 100_000);
+  });
+
+  test("records handler failures as error jobs", async () => {
+    const jobs = createMemoryJobStore();
+    const dispatch = createDispatcher({ ...built, jobs });
+    await dispatch({
+      op: "v1:reports.generate",
+      args: { delayMs: 0, fail: true },
+      ctx: { requestId: REQUEST_ID },
+    });
+    await sleep(10);
+    const job = await jobs.get(REQUEST_ID);
+    expect(job?.state).toBe("error");
+    expect(job?.result?.body.error?.code).toBe("INTERNAL_ERROR");
+  });
+
+  test("logs a job store that fails to record the result", async () => {
+    const jobs: JobStore = {
+      ...createMemoryJobStore(),
+      finish: async () => {
+        throw new Error("SQLITE_BUSY: database is locked");
+      },
+    };
+    const errors: { message: string; fields?: Record<string, unknown> }[] = [];
+    const logger: Logger = {
+      debug: () => {},
+      info: () => {},
+      warn: () => {},
+      error: (message, fields) => errors.push({ message, fields }),
+    };
+    await createDispatcher({ ...built, jobs, logger })({
+      op: "v1:reports.generate",
+      args: { delayMs: 0 },
+      ctx: { requestId: REQUEST_ID },
+    });
+    await sleep(10);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.message).toBe("opencall: failed to store the job result");
+    expect(errors[0]?.fields).toMatchObject({
+      op: "v1:reports.generate",
+      requestId: REQUEST_ID,
+      error: { message: "SQLITE_BUSY: database is locked" },
+    });
+  });
+
+  test("refuses a requestId that already belongs to a job with 409 REQUEST_ID_CONFLICT", async () => {
+    const jobs = createMemoryJobStore();
+    const dispatch = createDispatcher({ ...built, jobs });
+    const first = await dispatch({ op: "v1:reports.generate", args: { delayMs: 20 }, ctx: { requestId: REQUEST_ID } });
+    const second = await dispatch({
+      op: "v1:reports.generate",
+      args: { delayMs: 0, fail: true },
+      ctx: { requestId: REQUEST_ID },
+    });
+
+    expect(first.status).toBe(202);
+    expect(second.status).toBe(409);
+    expect(second.body.error?.code).toBe("REQUEST_ID_CONFLICT");
+    await sleep(40);
+    expect((await jobs.get(REQUEST_ID))?.result?.body.result).toEqual({ rows: 42 });
+  });
+
+  test("runs the handler inline without a job store", async () => {
+    const res = await createDispatcher(built)({ op: "v1:reports.generate", args: { delayMs: 0 } });
+    expect(res.status).toBe(200);
+    expect(res.body.result).toEqual({ rows: 42 });
+  });
+});
+
+// ── GET /ops/{requestId} ─────────────────────────────────────────────────
+
+describe("createFetchHandler async polling", () => {
+  const BASE = "https://api.example.com";
+  const authenticator: Authenticator = {
+    authenticate: ({ credential }) => (credential ? { sub: credential, scopes: [] } : undefined),
+  };
+
+  function call(handle: (req: Request) => Promise<Response>, token: string) {
+    return handle(
+      new Request(`${BASE}/call`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ op: "v1:reports.generate", args: { delayMs: 20 } }),
+      }),
+    );
+  }
+
+  test("serves pending, then complete", async () => {
+    const handle = createFetchHandler(built);
+    const { location } = await (await call(handle, "user:a")).json();
+
+    expect((await (await handle(new Request(`${BASE}${location.uri}`))).json()).state).toBe("pending");
+    await sleep(50);
+    const done = await (await handle(new Request(`${BASE}${location.uri}`))).json();
+    expect(done.state).toBe("complete");
+    expect(done.result).toEqual({ rows: 42 });
+  });
+
+  test("hides jobs from other subjects when an authenticator is configured", async () => {
+    const handle = createFetchHandler({ ...built, authenticator });
+    const { location } = await (await call(handle, "user:a")).json();
+
+    const owner = await handle(
+      new Request(`${BASE}${location.uri}`, { headers: { Authorization: "Bearer user:a" } }),
+    );
+    const other = await handle(
+      new Request(`${BASE}${location.uri}`, { headers: { Authorization: "Bearer user:b" } }),
+    );
+    expect(owner.status).toBe(200);
+    expect(other.status).toBe(404);
+  });
+});
+
+// ── createSqliteJobStore ─────────────────────────────────────────────────
+
+describe("createSqliteJobStore", () => {
+  const result = { status: 200, body: { requestId: REQUEST_ID, state: "complete" as const, result: 1 } };
+
+  function store(): JobStore {
+    return createSqliteJobStore(new Database(":memory:"));
+  }
+
+  test("round-trips pending and finished jobs", async () => {
+    const jobs = store();
+    await jobs.create({ requestId: REQUEST_ID, op: "v1:x", subject: "user:a", expiresAt: Date.now() + 60_000 });
+    expect(await jobs.get(REQUEST_ID)).toEqual({
+      requestId: REQUEST_ID,
+      op: "v1:x",
+      subject: "user:a",
+      state: "pending",
+      expiresAt: expect.any(Number),
+    });
+
+    await jobs.finish(REQUEST_ID, result, Date.now() + 60_000);
+    const job = await jobs.get(REQUEST_ID);
+    expect(job?.state).toBe("complete");
+    expect(job?.result).toEqual(result);
+  });
+
+  test("does not return expired jobs", async () => {
+    const jobs = store();
+    await jobs.create({ requestId: REQUEST_ID, op: "v1:x", expiresAt: Date.now() - 1 });
+    expect(await jobs.get(REQUEST_ID)).toBeUndefined();
+  });
+
+  test("refuses to overwrite an unexpired job", async () => {
+    const jobs = store();
+    expect(await jobs.create({ requestId: REQUEST_ID, op: "v1:x", subject: "user:a", expiresAt: Date.now() + 60_000 })).toBe(true);
+    expect(await jobs.create({ requestId: REQUEST_ID, op: "v1:y", subject: "user:b", expiresAt: Date.now() + 60_000 })).toBe(false);
+    expect((await jobs.get(REQUEST_ID))?.subject).toBe("user:a");
+  });
+
+  test("rejects unsafe table names", () => {
+    expect(() => createSqliteJobStore(new Database(":memory:"), { table: "jobs; DROP" })).toThrow();
+  });
+
+  test("backs the async dispatcher", async () => {
+    const jobs = store();
+    const dispatch = createDispatcher({ ...built, jobs });
+    await dispatch({ op: "v1:reports.generate", args: { delayMs: 0 }, ctx: { requestId: REQUEST_ID } });
+    await sleep(10);
+    expect((await jobs.get(REQUEST_ID))?.result?.body.result).toEqual({ rows: 42 });
+  });
+});
@@ -0,0 +1,135 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createFetchHandler,
+  createMemoryIdempotencyStore,
+  parseBatch,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+let running = 0;
+let peak = 0;
+
+const slowEchoModule: OperationModule = {
+  args: z.object({ value: z.number() }),
+  result: z.object({ value: z.number() }),
+  handler: async (input: unknown) => {
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    running--;
+    return { state: "complete" as const, result: input };
+  },
+};
+
+const built = buildRegistryFromModules([
+  { module: slowEchoModule, meta: { op: "v1:echo.value" } },
+  {
+    module: slowEchoModule,
+    meta: {
+      op: "v1:echo.keyed",
+      flags: "sideEffecting",
+      idempotency: { supported: true, ttlSeconds: 60, keyHeader: "Idempotency-Key" },
+    },
+  },
+]);
+
+function post(body: unknown): Request {
+  return new Request("http://localhost/call", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+const echo = (value: number) => ({ op: "v1:echo.value", args: { value } });
+
+// ── parseBatch ───────────────────────────────────────────────────────────
+
+describe("parseBatch", () => {
+  test("accepts a bare array or a { batch } wrapper", () => {
+    expect(parseBatch([echo(1)])).toEqual([echo(1)]);
+    expect(parseBatch({ batch: [echo(1)] })).toEqual([echo(1)]);
+  });
+
+  test("returns undefined for a single envelope", () => {
+    expect(parseBatch(echo(1))).toBeUndefined();
+  });
+});
+
+// ── Batch POST /call ─────────────────────────────────────────────────────
+
+describe("batch POST /call", () => {
+  test("dispatches each envelope independently and returns the envelopes in order", async () => {
+    const res = await createFetchHandler(built)(
+      post([echo(1), { op: "v1:missing", args: {} }, { op: "v1:echo.value", args: { value: "x" } }, echo(4)]),
+    );
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as any[];
+    expect(body.map((e) => e.state)).toEqual(["complete", "error", "error", "complete"]);
+    expect(body[0].result).toEqual({ value: 1 });
+    expect(body[1].error.code).toBe("OP_NOT_FOUND");
+    expect(body[2].error.code).toBe("SCHEMA_VALIDATION_FAILED");
+    expect(body[3].result).toEqual({ value: 4 });
+  });
+
+  test("echoes each envelope's ctx.requestId", async () => {
+    const ids = [crypto.randomUUID(), crypto.randomUUID()];
+    const res = await createFetchHandler(built)(
+      post({ batch: ids.map((requestId, i) => ({ ...echo(i), ctx: { requestId } })) }),
+    );
+    expect(((await res.json()) as any[]).map((e) => e.requestId)).toEqual(ids);
+  });
+
+  test("ignores the idempotency key header for batch items", async () => {
+    const handle = createFetchHandler({ ...built, idempotency: createMemoryIdempotencyStore() });
+    const keyed = (value: number, ctx?: Record<string, unknown>) => ({
+      op: "v1:echo.keyed",
+      args: { value },
+      ...(ctx && { ctx }),
+    });
+    const request = (body: unknown) =>
+      new Request("http://localhost/call", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": "shared" },
+        body: JSON.stringify(body),
+      });
+
+    const first = await (await handle(request([keyed(1), keyed(2)]))).json();
+    expect(first.map((item: any) => item.result)).toEqual([{ value: 1 }, { value: 2 }]);
+
+    const sameKey = keyed(3, { idempotencyKey: "k" });
+    const replayed = await (await handle(request([sameKey, sameKey]))).json();
+    expect(replayed[1].meta).toEqual({ idempotentReplay: true });
+  });
+
+  test("runs at most batchConcurrency envelopes at a time", async () => {
+    peak = 0;
+    const sequential = await createFetchHandler(built)(post([echo(1), echo(2), echo(3)]));
+    expect(sequential.status).toBe(200);
+    expect(peak).toBe(1);
+
+    peak = 0;
+    const parallel = await createFetchHandler({ ...built, batchConcurrency: 2 })(
+      post([echo(1), echo(2), echo(3), echo(4), echo(5)]),
+    );
+    const body = (await parallel.json()) as any[];
+    expect(body.map((e) => e.result.value)).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  test("rejects empty and oversized batches with 400 INVALID_ENVELOPE", async () => {
+    const empty = await createFetchHandler(built)(post([]));
+    expect(empty.status).toBe(400);
+    expect(((await empty.json()) as any).error.code).toBe("INVALID_ENVELOPE");
+
+    const oversized = await createFetchHandler({ ...built, maxBatchSize: 2 })(
+      post([echo(1), echo(2), echo(3)]),
+    );
+    expect(oversized.status).toBe(400);
+    expect(((await oversized.json()) as any).error.code).toBe("INVALID_ENVELOPE");
+  });
+});
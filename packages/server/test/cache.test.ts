@@ -0,0 +1,188 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  computeCacheKey,
+  createDispatcher,
+  createMemoryCache,
+  type Authenticator,
+  type CachePolicy,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+let calls = 0;
+
+const greetingModule: OperationModule = {
+  args: z.object({ name: z.string(), locale: z.string().optional() }),
+  result: z.object({ message: z.string(), call: z.number() }),
+  handler: async (input: unknown) => {
+    const { name } = input as { name: string };
+    calls++;
+    if (name === "error") throw new Error("boom");
+    return { state: "complete" as const, result: { message: `Hello, ${name}!`, call: calls } };
+  },
+};
+
+const built = buildRegistryFromModules([
+  {
+    module: greetingModule,
+    meta: {
+      op: "v1:greeting.hello",
+      cache: "public",
+      cacheTtl: 300,
+      cacheVary: ["ctx.locale"],
+      cacheTags: ["greeting"],
+    },
+  },
+  {
+    module: greetingModule,
+    meta: { op: "v1:greeting.mine", cache: "private", cacheTtl: 300 },
+  },
+  {
+    module: greetingModule,
+    meta: { op: "v1:greeting.send", cache: "public", cacheTtl: 300, flags: "sideEffecting" },
+  },
+]);
+
+const authenticator: Authenticator = {
+  authenticate: ({ credential }) => (credential ? { sub: credential, scopes: [] } : undefined),
+};
+
+function setup() {
+  const cache = createMemoryCache();
+  return { cache, dispatch: createDispatcher({ ...built, cache, authenticator }) };
+}
+
+const hello = (name: string, ctx?: Record<string, unknown>) => ({
+  op: "v1:greeting.hello",
+  args: { name },
+  ...(ctx && { ctx }),
+});
+
+// ── Dispatcher integration ───────────────────────────────────────────────
+
+describe("createDispatcher cache", () => {
+  test("serves repeated calls from cache and marks hits in meta", async () => {
+    const { dispatch } = setup();
+    const first = await dispatch(hello("Ada"));
+    const second = await dispatch(hello("Ada", { requestId: "550e8400-e29b-41d4-a716-446655440000" }));
+
+    expect(first.body.meta).toBeUndefined();
+    expect(second.body.result).toEqual(first.body.result);
+    expect(second.body.meta).toEqual({ cacheHit: true });
+    expect(second.body.requestId).toBe("550e8400-e29b-41d4-a716-446655440000");
+  });
+
+  test("keys on the arguments", async () => {
+    const { dispatch } = setup();
+    const ada = await dispatch(hello("Ada"));
+    const bob = await dispatch(hello("Bob"));
+    expect(bob.body.result).not.toEqual(ada.body.result);
+  });
+
+  test("keys on the vary paths", async () => {
+    const { dispatch } = setup();
+    const en = await dispatch(hello("Ada", { locale: "en" }));
+    const fr = await dispatch(hello("Ada", { locale: "fr" }));
+    expect(fr.body.meta).toBeUndefined();
+    expect(fr.body.result).not.toEqual(en.body.result);
+  });
+
+  test("invalidates cached results by tag", async () => {
+    const { cache, dispatch } = setup();
+    const first = await dispatch(hello("Ada"));
+    await cache.invalidateTags(["greeting"]);
+    const second = await dispatch(hello("Ada"));
+    expect(second.body.meta).toBeUndefined();
+    expect(second.body.result).not.toEqual(first.body.result);
+  });
+
+  test("does not cache errors", async () => {
+    const { dispatch } = setup();
+    await dispatch(hello("error"));
+    const second = await dispatch(hello("error"));
+    expect(second.status).toBe(500);
+    expect(second.body.meta).toBeUndefined();
+  });
+
+  test("varies private results on the caller", async () => {
+    const { dispatch } = setup();
+    const mine = { op: "v1:greeting.mine", args: { name: "Ada" } };
+    const a1 = await dispatch(mine, { headers: new Headers({ Authorization: "Bearer user:a" }) });
+    const a2 = await dispatch(mine, { headers: new Headers({ Authorization: "Bearer user:a" }) });
+    const b = await dispatch(mine, { headers: new Headers({ Authorization: "Bearer user:b" }) });
+    expect(a2.body.meta).toEqual({ cacheHit: true });
+    expect(b.body.meta).toBeUndefined();
+    expect(b.body.result).not.toEqual(a1.body.result);
+  });
+
+  test("does not cache private results for unverified envelope.auth callers", async () => {
+    const dispatch = createDispatcher({ ...built, cache: createMemoryCache() });
+    const mine = {
+      op: "v1:greeting.mine",
+      args: { name: "Ada" },
+      auth: { iss: "spoofed", sub: "user:a", credentialType: "bearer" },
+    };
+    await dispatch(mine);
+    const again = await dispatch(mine);
+    expect(again.status).toBe(200);
+    expect(again.body.meta).toBeUndefined();
+  });
+
+  test("never caches side-effecting operations", async () => {
+    const { dispatch } = setup();
+    await dispatch({ op: "v1:greeting.send", args: { name: "Ada" } });
+    const second = await dispatch({ op: "v1:greeting.send", args: { name: "Ada" } });
+    expect(second.body.meta).toBeUndefined();
+  });
+});
+
+// ── computeCacheKey ──────────────────────────────────────────────────────
+
+describe("computeCacheKey", () => {
+  const policy: CachePolicy = { enabled: true, ttl: 60, scope: "public", vary: ["args.locale"] };
+
+  test("is stable regardless of argument key order", () => {
+    const a = computeCacheKey(policy, { op: "x", args: { a: 1, b: 2 } });
+    const b = computeCacheKey(policy, { op: "x", args: { b: 2, a: 1 } });
+    expect(a).toBe(b);
+  });
+
+  test("returns undefined for private scope without a principal", () => {
+    expect(computeCacheKey({ ...policy, scope: "private" }, { op: "x", args: {} })).toBeUndefined();
+  });
+
+  test("varies tenant scope on the tenant claim", () => {
+    const tenantPolicy: CachePolicy = { enabled: true, ttl: 60, scope: "tenant" };
+    const a = computeCacheKey(tenantPolicy, { op: "x", args: {} }, { sub: "u1", scopes: [], claims: { tenant: "t1" } });
+    const b = computeCacheKey(tenantPolicy, { op: "x", args: {} }, { sub: "u2", scopes: [], claims: { tenant: "t1" } });
+    const c = computeCacheKey(tenantPolicy, { op: "x", args: {} }, { sub: "u1", scopes: [], claims: { tenant: "t2" } });
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+});
+
+// ── createMemoryCache ────────────────────────────────────────────────────
+
+describe("createMemoryCache", () => {
+  const result = { status: 200, body: { requestId: "r", state: "complete" as const } };
+
+  test("evicts the least recently used entry beyond maxEntries", async () => {
+    const cache = createMemoryCache({ maxEntries: 2 });
+    await cache.set("a", result, { ttlSeconds: 60, tags: [] });
+    await cache.set("b", result, { ttlSeconds: 60, tags: [] });
+    await cache.get("a");
+    await cache.set("c", result, { ttlSeconds: 60, tags: [] });
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBeDefined();
+  });
+
+  test("expires entries after ttlSeconds", async () => {
+    const cache = createMemoryCache();
+    await cache.set("a", result, { ttlSeconds: 0, tags: [] });
+    expect(await cache.get("a")).toBeUndefined();
+  });
+});
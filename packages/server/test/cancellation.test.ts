@@ -0,0 +1,185 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createCancellationRegistry,
+  createDispatcher,
+  createFetchHandler,
+  createMemoryJobStore,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+let lastSignal: AbortSignal | undefined;
+
+/** Waits for delayMs, or ignores its signal entirely with `stubborn` */
+const waitModule: OperationModule = {
+  args: z.object({ delayMs: z.number(), stubborn: z.boolean().optional() }),
+  result: z.object({ waited: z.number() }),
+  handler: async (input, { signal }) => {
+    const { delayMs, stubborn } = input as { delayMs: number; stubborn?: boolean };
+    lastSignal = signal;
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, delayMs);
+      if (!stubborn) {
+        signal.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        });
+      }
+    });
+    return { state: "complete", result: { waited: delayMs } };
+  },
+};
+
+const built = buildRegistryFromModules([
+  { module: waitModule, meta: { op: "v1:wait.inline" } },
+  { module: waitModule, meta: { op: "v1:wait.job", execution: "async", ttl: 120 } },
+  { module: waitModule, meta: { op: "v1:wait.escalate", timeout: 20, onTimeout: "escalate" } },
+]);
+
+const REQUEST_ID = "550e8400-e29b-41d4-a716-446655440000";
+
+// ── Deadlines ────────────────────────────────────────────────────────────
+
+describe("ctx.timeoutMs", () => {
+  test("aborts the handler's signal and returns 504 OPERATION_TIMEOUT", async () => {
+    const started = Date.now();
+    const res = await createDispatcher(built)({
+      op: "v1:wait.inline",
+      args: { delayMs: 1000 },
+      ctx: { timeoutMs: 20 },
+    });
+
+    expect(res.status).toBe(504);
+    expect(res.body.error?.code).toBe("OPERATION_TIMEOUT");
+    expect(res.body.error?.cause).toEqual({ op: "v1:wait.inline", timeoutMs: 20 });
+    expect(lastSignal?.aborted).toBe(true);
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+  test("settles at the deadline even when the handler ignores its signal", async () => {
+    const started = Date.now();
+    const res = await createDispatcher(built)({
+      op: "v1:wait.inline",
+      args: { delayMs: 300, stubborn: true },
+      ctx: { timeoutMs: 20 },
+    });
+    expect(res.status).toBe(504);
+    expect(Date.now() - started).toBeLessThan(200);
+  });
+
+  test("does not abort escalated calls, which continue as jobs", async () => {
+    const jobs = createMemoryJobStore();
+    const res = await createDispatcher({ ...built, jobs })({
+      op: "v1:wait.escalate",
+      args: { delayMs: 60 },
+      ctx: { requestId: REQUEST_ID },
+    });
+    expect(res.status).toBe(202);
+    expect(lastSignal?.aborted).toBe(false);
+
+    await sleep(80);
+    expect((await jobs.get(REQUEST_ID))?.state).toBe("complete");
+  });
+});
+
+// ── Disconnects ──────────────────────────────────────────────────────────
+
+describe("request signal", () => {
+  test("a disconnect cancels the handler with 499 CANCELLED", async () => {
+    const disconnected = new AbortController();
+    const pending = createDispatcher(built)(
+      { op: "v1:wait.inline", args: { delayMs: 1000 } },
+      { signal: disconnected.signal },
+    );
+    await sleep(10);
+    disconnected.abort();
+
+    const res = await pending;
+    expect(res.status).toBe(499);
+    expect(res.body.error?.code).toBe("CANCELLED");
+    expect(lastSignal?.aborted).toBe(true);
+  });
+
+  test("a disconnect after a job is accepted leaves the job running", async () => {
+    const jobs = createMemoryJobStore();
+    const disconnected = new AbortController();
+    const res = await createDispatcher({ ...built, jobs })(
+      { op: "v1:wait.job", args: { delayMs: 30 }, ctx: { requestId: REQUEST_ID } },
+      { signal: disconnected.signal },
+    );
+    expect(res.status).toBe(202);
+    disconnected.abort();
+
+    await sleep(60);
+    expect((await jobs.get(REQUEST_ID))?.result?.body.result).toEqual({ waited: 30 });
+  });
+});
+
+// ── DELETE /ops/{requestId} ──────────────────────────────────────────────
+
+describe("DELETE /ops/{requestId}", () => {
+  async function startJob(handle: (req: Request) => Promise<Response>) {
+    const res = await handle(
+      new Request("http://localhost/call", {
+        method: "POST",
+        body: JSON.stringify({ op: "v1:wait.job", args: { delayMs: 1000 }, ctx: { requestId: REQUEST_ID } }),
+      }),
+    );
+    expect(res.status).toBe(202);
+  }
+
+  const del = () => new Request(`http://localhost/ops/${REQUEST_ID}`, { method: "DELETE" });
+
+  test("cancels a pending job and records it as CANCELLED", async () => {
+    const handle = createFetchHandler(built);
+    await startJob(handle);
+    await sleep(5);
+
+    const res = await handle(del());
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.state).toBe("error");
+    expect(body.error.code).toBe("CANCELLED");
+    expect(lastSignal?.aborted).toBe(true);
+
+    await sleep(5);
+    const status = await handle(new Request(`http://localhost/ops/${REQUEST_ID}`));
+    expect(status.status).toBe(499);
+    expect((await status.json()).error.code).toBe("CANCELLED");
+  });
+
+  test("leaves finished jobs as they are", async () => {
+    const handle = createFetchHandler(built);
+    await handle(
+      new Request("http://localhost/call", {
+        method: "POST",
+        body: JSON.stringify({ op: "v1:wait.job", args: { delayMs: 0 }, ctx: { requestId: REQUEST_ID } }),
+      }),
+    );
+    await sleep(10);
+
+    const res = await handle(del());
+    expect(res.status).toBe(200);
+    expect((await res.json()).state).toBe("complete");
+  });
+
+  test("returns 409 NOT_CANCELLABLE for a job running on another instance", async () => {
+    const jobs = createMemoryJobStore();
+    await startJob(createFetchHandler({ ...built, jobs }));
+
+    const other = createFetchHandler({ ...built, jobs, cancellations: createCancellationRegistry() });
+    const res = await other(del());
+    expect(res.status).toBe(409);
+    expect((await res.json()).error.code).toBe("NOT_CANCELLABLE");
+  });
+
+  test("returns 404 for unknown jobs", async () => {
+    const res = await createFetchHandler(built)(del());
+    expect(res.status).toBe(404);
+  });
+});
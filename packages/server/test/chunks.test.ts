@@ -0,0 +1,204 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildChunks,
+  buildRegistryFromModules,
+  chunked,
+  createDispatcher,
+  createFetchHandler,
+  createMemoryChunkStore,
+  formatChunk,
+  type Authenticator,
+  type ChunkResponse,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const REQUEST_ID = "550e8400-e29b-41d4-a716-446655440000";
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => i % 251);
+
+async function sha256(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return `sha256:${Buffer.from(digest).toString("hex")}`;
+}
+
+async function* pieces(data: Uint8Array, size: number): AsyncIterable<Uint8Array> {
+  for (let i = 0; i < data.length; i += size) yield data.slice(i, i + size);
+}
+
+const exportModule: OperationModule = {
+  args: z.object({ length: z.number() }),
+  result: z.unknown(),
+  handler: async (input: unknown) => {
+    const { length } = input as { length: number };
+    return { state: "complete" as const, result: chunked(bytes(length), { chunkSize: 100 }) };
+  },
+};
+
+const built = buildRegistryFromModules([
+  { module: exportModule, meta: { op: "v1:reports.export", ttl: 120 } },
+]);
+
+/** Pull every chunk the way the client's retrieveChunked() does */
+async function retrieve(
+  handle: (req: Request) => Promise<Response>,
+  requestId: string,
+  headers?: HeadersInit,
+): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  let previous: string | null = null;
+  let cursor: string | undefined;
+  while (true) {
+    const query = cursor !== undefined ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    const res = await handle(
+      new Request(`http://localhost/ops/${requestId}/chunks${query}`, { headers }),
+    );
+    const body = (await res.json()) as ChunkResponse;
+    expect(body.chunk.checksumPrevious).toBe(previous);
+    const data = new Uint8Array(Buffer.from(body.data, "base64"));
+    expect(body.chunk.checksum).toBe(await sha256(data));
+    parts.push(data);
+    previous = body.chunk.checksum;
+    if (body.state === "complete") break;
+    cursor = body.cursor;
+  }
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+// ── buildChunks / formatChunk ────────────────────────────────────────────
+
+describe("buildChunks", () => {
+  test("splits into chunkSize pieces linked by a sha256 chain", async () => {
+    const chunks = await buildChunks(chunked(bytes(250), { chunkSize: 100 }));
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks.map((c) => Buffer.from(c.data, "base64").length)).toEqual([100, 100, 50]);
+    expect(chunks[0]!.checksumPrevious).toBeNull();
+    expect(chunks[1]!.checksumPrevious).toBe(chunks[0]!.checksum);
+    expect(chunks[2]!.checksumPrevious).toBe(chunks[1]!.checksum);
+    expect(chunks[0]!.checksum).toBe(await sha256(bytes(250).slice(0, 100)));
+  });
+
+  test("re-slices ReadableStream and AsyncIterable sources", async () => {
+    const data = bytes(250);
+    const expected = await buildChunks(chunked(data, { chunkSize: 100 }));
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(data.slice(0, 30));
+        controller.enqueue(data.slice(30));
+        controller.close();
+      },
+    });
+    expect(await buildChunks(chunked(stream, { chunkSize: 100 }))).toEqual(expected);
+    expect(await buildChunks(chunked(pieces(data, 7), { chunkSize: 100 }))).toEqual(expected);
+    for (const size of [100, 130, 240]) {
+      expect(await buildChunks(chunked(pieces(data, size), { chunkSize: 100 }))).toEqual(expected);
+    }
+  });
+
+  test("an empty source yields a single empty chunk", async () => {
+    const chunks = await buildChunks(chunked(new Uint8Array(0)));
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]!.data).toBe("");
+    expect(chunks[0]!.checksumPrevious).toBeNull();
+  });
+
+  test("rejects a non-positive chunkSize", () => {
+    expect(() => chunked(bytes(1), { chunkSize: 0 })).toThrow();
+  });
+});
+
+describe("formatChunk", () => {
+  test("returns 400 INVALID_CURSOR for a malformed or out-of-range cursor", async () => {
+    const chunks = await buildChunks(chunked(bytes(10)));
+
+    for (const cursor of ["garbage", Buffer.from("chunk:5").toString("base64url")]) {
+      const { status, body } = formatChunk(chunks, cursor);
+      expect(status).toBe(400);
+      expect(body.state).toBe("error");
+      expect(body.error?.code).toBe("INVALID_CURSOR");
+    }
+  });
+});
+
+// ── Dispatch and fetch handler ───────────────────────────────────────────
+
+describe("chunked results", () => {
+  test("dispatch stores the chunks and redirects to /ops/{requestId}/chunks", async () => {
+    const chunks = createMemoryChunkStore();
+    const dispatch = createDispatcher({ ...built, chunks });
+    const res = await dispatch({
+      op: "v1:reports.export",
+      args: { length: 250 },
+      ctx: { requestId: REQUEST_ID },
+    });
+
+    expect(res.status).toBe(303);
+    expect(res.body.location?.uri).toBe(`/ops/${REQUEST_ID}/chunks`);
+    const set = await chunks.get(REQUEST_ID);
+    expect(set?.chunks).toHaveLength(3);
+    expect(set!.expiresAt).toBeGreaterThan(Date.now() + 100_000);
+  });
+
+  test("dispatch fails with 500 when no chunk store is configured", async () => {
+    const dispatch = createDispatcher(built);
+    const res = await dispatch({ op: "v1:reports.export", args: { length: 10 } });
+    expect(res.status).toBe(500);
+    expect(res.body.error?.code).toBe("INTERNAL_ERROR");
+  });
+
+  test("the fetch handler serves the chain for retrieveChunked", async () => {
+    const handle = createFetchHandler(built);
+    const call = await handle(
+      new Request("http://localhost/call", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          op: "v1:reports.export",
+          args: { length: 250 },
+          ctx: { requestId: REQUEST_ID },
+        }),
+      }),
+    );
+    expect(call.status).toBe(303);
+    expect(call.headers.get("Location")).toBe(`/ops/${REQUEST_ID}/chunks`);
+
+    expect(await retrieve(handle, REQUEST_ID)).toEqual(bytes(250));
+  });
+
+  test("unknown request ids are 404", async () => {
+    const handle = createFetchHandler(built);
+    const res = await handle(new Request("http://localhost/ops/unknown/chunks"));
+    expect(res.status).toBe(404);
+  });
+
+  test("with an authenticator, only the producing subject can read the chunks", async () => {
+    const authenticator: Authenticator = {
+      authenticate: async ({ credential }) =>
+        credential ? { sub: credential, scopes: [] } : undefined,
+    };
+    const handle = createFetchHandler({ ...built, authenticator });
+    await handle(
+      new Request("http://localhost/call", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: "Bearer alice" },
+        body: JSON.stringify({
+          op: "v1:reports.export",
+          args: { length: 10 },
+          ctx: { requestId: REQUEST_ID },
+        }),
+      }),
+    );
+
+    const other = await handle(
+      new Request(`http://localhost/ops/${REQUEST_ID}/chunks`, {
+        headers: { Authorization: "Bearer bob" },
+      }),
+    );
+    expect(other.status).toBe(404);
+    expect(await retrieve(handle, REQUEST_ID, { Authorization: "Bearer alice" })).toEqual(bytes(10));
+  });
+});
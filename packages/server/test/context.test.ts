@@ -0,0 +1,108 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createDispatcher,
+  createHandlerContext,
+  defineOperation,
+  type HandlerContext,
+} from "../src/index.ts";
+import { memoryLogger } from "./fixtures/logger.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const REQUEST_ID = "550e8400-e29b-41d4-a716-446655440000";
+const SESSION_ID = "660e8400-e29b-41d4-a716-446655440000";
+const PARENT_ID = "770e8400-e29b-41d4-a716-446655440000";
+
+let seen: { args: { orderId: string }; ctx: HandlerContext } | undefined;
+
+const getOrder = defineOperation({
+  args: z.object({ orderId: z.string() }),
+  result: z.object({ orderId: z.string() }),
+  handler: async (args, ctx) => {
+    seen = { args, ctx };
+    ctx.logger.info("loading order", { orderId: args.orderId });
+    return { state: "complete", result: { orderId: args.orderId } };
+  },
+});
+
+const built = buildRegistryFromModules([
+  {
+    module: getOrder,
+    meta: { op: "v1:orders.get", timeout: 2000, idempotency: { supported: true } },
+  },
+]);
+
+// ── Dispatcher ───────────────────────────────────────────────────────────
+
+describe("HandlerContext", () => {
+  test("the dispatcher passes a context built from the envelope", async () => {
+    const before = Date.now();
+    const res = await createDispatcher(built)({
+      op: "v1:orders.get",
+      args: { orderId: "o-1" },
+      ctx: {
+        requestId: REQUEST_ID,
+        sessionId: SESSION_ID,
+        parentId: PARENT_ID,
+        locale: "fr-CA",
+        traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+        idempotencyKey: "key-1",
+        timeoutMs: 500,
+      },
+      auth: { iss: "test", sub: "user:42", credentialType: "bearer" },
+    });
+
+    expect(res.status).toBe(200);
+    const ctx = seen!.ctx;
+    expect(seen!.args).toEqual({ orderId: "o-1" });
+    expect(ctx).toMatchObject({
+      requestId: REQUEST_ID,
+      sessionId: SESSION_ID,
+      parentId: PARENT_ID,
+      locale: "fr-CA",
+      traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      principal: { sub: "user:42", iss: "test", scopes: [] },
+      idempotencyKey: "key-1",
+      media: {},
+    });
+    expect(ctx.signal).toBeInstanceOf(AbortSignal);
+    expect(ctx.signal.aborted).toBe(false);
+    expect(ctx.deadline).toBeGreaterThanOrEqual(before + 500);
+    expect(ctx.deadline).toBeLessThan(before + 2000);
+  });
+
+  test("the deadline falls back to the SyncPolicy budget", async () => {
+    const before = Date.now();
+    await createDispatcher(built)({ op: "v1:orders.get", args: { orderId: "o-1" } });
+    expect(seen!.ctx.deadline).toBeGreaterThanOrEqual(before + 2000);
+    expect(seen!.ctx.principal).toBeUndefined();
+  });
+
+  test("ctx.logger is the dispatcher's logger bound to the op and requestId", async () => {
+    const logger = memoryLogger();
+    await createDispatcher({ ...built, logger })({
+      op: "v1:orders.get",
+      args: { orderId: "o-1" },
+      ctx: { requestId: REQUEST_ID },
+    });
+    expect(logger.records[0]).toEqual({
+      level: "info",
+      message: "loading order",
+      fields: { op: "v1:orders.get", requestId: REQUEST_ID, orderId: "o-1" },
+    });
+  });
+});
+
+// ── createHandlerContext ─────────────────────────────────────────────────
+
+describe("createHandlerContext", () => {
+  test("defaults to a silent logger, a live signal and no media", () => {
+    const ctx = createHandlerContext({ envelope: { op: "v1:orders.get", args: {} }, requestId: REQUEST_ID });
+    expect(ctx.requestId).toBe(REQUEST_ID);
+    expect(ctx.signal.aborted).toBe(false);
+    expect(ctx.media).toEqual({});
+    expect(() => ctx.logger.error("ignored")).not.toThrow();
+  });
+});
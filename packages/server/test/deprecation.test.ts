@@ -0,0 +1,114 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createDeprecationTracker,
+  createDispatcher,
+  createFetchHandler,
+  type DeprecatedCall,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const echoModule: OperationModule = {
+  args: z.object({ value: z.string() }),
+  result: z.object({ value: z.string() }),
+  handler: async (input: unknown) => ({ state: "complete" as const, result: input }),
+};
+
+const built = buildRegistryFromModules([
+  {
+    module: echoModule,
+    meta: { op: "v1:legacy.echo", flags: "deprecated", sunset: "2099-01-01", replacement: "v2:echo" },
+  },
+  { module: echoModule, meta: { op: "v1:flagged.echo", flags: "deprecated" } },
+  { module: echoModule, meta: { op: "v2:echo" } },
+]);
+
+const withAuth = (sub: string) => ({
+  op: "v1:legacy.echo",
+  args: { value: "x" },
+  auth: { iss: "test", sub, credentialType: "bearer" },
+});
+
+// ── Dispatcher ───────────────────────────────────────────────────────────
+
+describe("deprecation signalling", () => {
+  test("adds meta.deprecation and Deprecation/Sunset headers to a deprecated op's responses", async () => {
+    const res = await createDispatcher(built)({ op: "v1:legacy.echo", args: { value: "x" } });
+    expect(res.status).toBe(200);
+    expect(res.body.meta?.deprecation).toEqual({ sunset: "2099-01-01", replacement: "v2:echo" });
+    expect(res.headers).toEqual({
+      Deprecation: "true",
+      Sunset: new Date("2099-01-01").toUTCString(),
+    });
+  });
+
+  test("signals on error responses too", async () => {
+    const res = await createDispatcher(built)({ op: "v1:legacy.echo", args: {} });
+    expect(res.body.error?.code).toBe("SCHEMA_VALIDATION_FAILED");
+    expect(res.body.meta?.deprecation).toEqual({ sunset: "2099-01-01", replacement: "v2:echo" });
+    expect(res.headers?.["Deprecation"]).toBe("true");
+  });
+
+  test("ops flagged deprecated without a sunset get no Sunset header", async () => {
+    const res = await createDispatcher(built)({ op: "v1:flagged.echo", args: { value: "x" } });
+    expect(res.body.meta?.deprecation).toEqual({});
+    expect(res.headers).toEqual({ Deprecation: "true" });
+  });
+
+  test("active ops are not signalled", async () => {
+    const res = await createDispatcher(built)({ op: "v2:echo", args: { value: "x" } });
+    expect(res.body.meta).toBeUndefined();
+    expect(res.headers).toBeUndefined();
+  });
+
+  test("reports each call with its subject to onDeprecatedCall", async () => {
+    const calls: DeprecatedCall[] = [];
+    const dispatch = createDispatcher({ ...built, onDeprecatedCall: (call) => calls.push(call) });
+    await dispatch(withAuth("alice"));
+    await dispatch({ op: "v2:echo", args: { value: "x" } });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({
+      op: "v1:legacy.echo",
+      subject: "alice",
+      sunset: "2099-01-01",
+      replacement: "v2:echo",
+    });
+  });
+
+  test("createFetchHandler sends the deprecation headers", async () => {
+    const res = await createFetchHandler(built)(
+      new Request("http://localhost/call", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ op: "v1:legacy.echo", args: { value: "x" } }),
+      }),
+    );
+    expect(res.headers.get("Deprecation")).toBe("true");
+    expect(res.headers.get("Sunset")).toBe(new Date("2099-01-01").toUTCString());
+  });
+});
+
+// ── createDeprecationTracker ─────────────────────────────────────────────
+
+describe("createDeprecationTracker", () => {
+  test("counts calls per op and subject, most called first", async () => {
+    const tracker = createDeprecationTracker();
+    const dispatch = createDispatcher({ ...built, onDeprecatedCall: tracker.record });
+    await dispatch(withAuth("alice"));
+    await dispatch(withAuth("bob"));
+    await dispatch(withAuth("bob"));
+    await dispatch({ op: "v1:flagged.echo", args: { value: "x" } });
+
+    expect(tracker.usage("v1:legacy.echo").map(({ subject, count }) => ({ subject, count }))).toEqual([
+      { subject: "bob", count: 2 },
+      { subject: "alice", count: 1 },
+    ]);
+    expect(tracker.usage()).toHaveLength(3);
+    expect(tracker.usage("v1:flagged.echo")[0]).toMatchObject({ op: "v1:flagged.echo", count: 1 });
+    expect(tracker.usage("v1:flagged.echo")[0]!.subject).toBeUndefined();
+  });
+});
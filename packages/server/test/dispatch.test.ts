@@ -0,0 +1,416 @@
+import { test, expect, describe, spyOn } from "bun:test";
+import { z } from "zod/v4";
+import {
+  AuthRequiredError,
+  buildRegistryFromModules,
+  createDispatcher,
+  defineError,
+  type Authenticator,
+  type Logger,
+  type ModuleEntry,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const ItemNotFoundError = defineError({
+  code: "ITEM_NOT_FOUND",
+  httpStatus: 200,
+  message: "Item not found",
+  messages: { fr: "Article introuvable" },
+  retryable: false,
+});
+
+const greetingModule: OperationModule = {
+  args: z.object({ name: z.string() }),
+  result: z.object({ message: z.string() }),
+  handler: async (input: unknown) => ({
+    state: "complete" as const,
+    result: { message: `Hello, ${(input as { name: string }).name}!` },
+  }),
+};
+
+const profileModule: OperationModule = {
+  args: z.object({ id: z.string() }),
+  result: z.object({ id: z.string() }),
+  requiresAuth: true,
+  handler: async (input: unknown) => {
+    const { id } = input as { id: string };
+    if (id === "missing") throw new ItemNotFoundError({ id });
+    return { state: "complete" as const, result: { id } };
+  },
+};
+
+const removedModule: OperationModule = {
+  ...greetingModule,
+  sunset: "2024-01-01",
+  replacement: "v1:greeting.hello",
+};
+
+const entries: ModuleEntry[] = [
+  { module: greetingModule, meta: { op: "v1:greeting.hello" } },
+  { module: profileModule, meta: { op: "v1:profile.get" } },
+  { module: removedModule, meta: { op: "v1:greeting.old" } },
+];
+
+const REQUEST_ID = "550e8400-e29b-41d4-a716-446655440000";
+const SESSION_ID = "660e8400-e29b-41d4-a716-446655440000";
+const auth = { iss: "auth.example.com", sub: "user:42", credentialType: "bearer" };
+
+const dispatch = createDispatcher(buildRegistryFromModules(entries));
+
+// ── createDispatcher ─────────────────────────────────────────────────────
+
+describe("createDispatcher", () => {
+  test("dispatches a valid envelope to the handler", async () => {
+    const res = await dispatch({ op: "v1:greeting.hello", args: { name: "Ada" } });
+    expect(res.status).toBe(200);
+    expect(res.body.state).toBe("complete");
+    expect(res.body.result).toEqual({ message: "Hello, Ada!" });
+  });
+
+  test("echoes requestId and sessionId from the envelope", async () => {
+    const res = await dispatch({
+      op: "v1:greeting.hello",
+      args: { name: "Ada" },
+      ctx: { requestId: REQUEST_ID, sessionId: SESSION_ID },
+    });
+    expect(res.body.requestId).toBe(REQUEST_ID);
+    expect(res.body.sessionId).toBe(SESSION_ID);
+  });
+
+  test("generates a requestId when the caller omits one", async () => {
+    const res = await dispatch({ op: "v1:greeting.hello", args: { name: "Ada" } });
+    expect(res.body.requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  test("returns 400 INVALID_ENVELOPE for a malformed body", async () => {
+    const res = await dispatch({ args: {} });
+    expect(res.status).toBe(400);
+    expect(res.body.error?.code).toBe("INVALID_ENVELOPE");
+  });
+
+  test("returns 404 OP_NOT_FOUND for an unknown operation", async () => {
+    const res = await dispatch({ op: "v1:nope", ctx: { requestId: REQUEST_ID } });
+    expect(res.status).toBe(404);
+    expect(res.body.requestId).toBe(REQUEST_ID);
+    expect(res.body.error?.code).toBe("OP_NOT_FOUND");
+    expect(res.body.error?.cause).toEqual({ op: "v1:nope" });
+  });
+
+  test("returns 410 OP_REMOVED after the sunset date", async () => {
+    const res = await dispatch({ op: "v1:greeting.old", args: { name: "Ada" } });
+    expect(res.status).toBe(410);
+    expect(res.body.error?.code).toBe("OP_REMOVED");
+  });
+
+  test("returns 401 AUTH_REQUIRED when requiresAuth is set and the caller is anonymous", async () => {
+    const res = await dispatch({
+      op: "v1:profile.get",
+      args: { id: "p1" },
+      ctx: { sessionId: SESSION_ID },
+    });
+    expect(res.status).toBe(401);
+    expect(res.body.sessionId).toBe(SESSION_ID);
+    expect(res.body.error?.code).toBe("AUTH_REQUIRED");
+  });
+
+  test("checks auth before validating arguments", async () => {
+    const res = await dispatch({ op: "v1:profile.get", args: {} });
+    expect(res.body.error?.code).toBe("AUTH_REQUIRED");
+  });
+
+  test("accepts envelope auth for requiresAuth operations", async () => {
+    const res = await dispatch({ op: "v1:profile.get", args: { id: "p1" }, auth });
+    expect(res.status).toBe(200);
+    expect(res.body.result).toEqual({ id: "p1" });
+  });
+
+  test("returns 400 SCHEMA_VALIDATION_FAILED for invalid arguments", async () => {
+    const res = await dispatch({
+      op: "v1:greeting.hello",
+      args: { name: 42 },
+      ctx: { requestId: REQUEST_ID },
+    });
+    expect(res.status).toBe(400);
+    expect(res.body.requestId).toBe(REQUEST_ID);
+    expect(res.body.error?.code).toBe("SCHEMA_VALIDATION_FAILED");
+  });
+
+  test("maps errors thrown by the handler", async () => {
+    const res = await dispatch({
+      op: "v1:profile.get",
+      args: { id: "missing" },
+      ctx: { requestId: REQUEST_ID, sessionId: SESSION_ID },
+      auth,
+    });
+    expect(res.status).toBe(200);
+    expect(res.body.sessionId).toBe(SESSION_ID);
+    expect(res.body.error?.code).toBe("ITEM_NOT_FOUND");
+  });
+
+  test("translates error messages for ctx.locale", async () => {
+    const call = (locale?: string) =>
+      dispatch({ op: "v1:profile.get", args: { id: "missing" }, ctx: { locale }, auth });
+    expect((await call("fr-CA")).body.error?.message).toBe("Article introuvable");
+    expect((await call("es")).body.error?.message).toBe("Item not found");
+    expect((await call()).body.error?.message).toBe("Item not found");
+  });
+});
+
+// ── Authorization ────────────────────────────────────────────────────────
+
+describe("createDispatcher authorization", () => {
+  const scopedEntries: ModuleEntry[] = [
+    ...entries,
+    { module: greetingModule, meta: { op: "v1:greeting.secure", security: "greet:read greet:write" } },
+  ];
+  const tokens: Record<string, { sub: string; scopes: string[] }> = {
+    reader: { sub: "user:reader", scopes: ["greet:read"] },
+    writer: { sub: "user:writer", scopes: ["greet:read", "greet:write"] },
+  };
+  const authenticator: Authenticator = {
+    authenticate({ credential }) {
+      if (credential === "expired") throw new AuthRequiredError({ reason: "token expired" });
+      return credential ? tokens[credential] : undefined;
+    },
+  };
+  const scopedDispatch = createDispatcher({
+    ...buildRegistryFromModules(scopedEntries),
+    authenticator,
+  });
+  const bearer = (token: string) => ({ headers: new Headers({ Authorization: `Bearer ${token}` }) });
+
+  test("resolves the principal from an Authorization bearer header", async () => {
+    const res = await scopedDispatch({ op: "v1:profile.get", args: { id: "p1" } }, bearer("reader"));
+    expect(res.status).toBe(200);
+  });
+
+  test("resolves the principal from envelope.auth.credential", async () => {
+    const res = await scopedDispatch({
+      op: "v1:greeting.secure",
+      args: { name: "Ada" },
+      auth: { ...auth, credential: "writer" },
+    });
+    expect(res.status).toBe(200);
+  });
+
+  test("returns 401 AUTH_REQUIRED for operations with authScopes and no principal", async () => {
+    const res = await scopedDispatch({ op: "v1:greeting.secure", args: { name: "Ada" } });
+    expect(res.status).toBe(401);
+    expect(res.body.error?.code).toBe("AUTH_REQUIRED");
+  });
+
+  test("returns 403 FORBIDDEN with the missing scopes in cause", async () => {
+    const res = await scopedDispatch(
+      { op: "v1:greeting.secure", args: { name: "Ada" }, ctx: { requestId: REQUEST_ID } },
+      bearer("reader"),
+    );
+    expect(res.status).toBe(403);
+    expect(res.body.requestId).toBe(REQUEST_ID);
+    expect(res.body.error?.code).toBe("FORBIDDEN");
+    expect(res.body.error?.cause).toEqual({
+      op: "v1:greeting.secure",
+      requiredScopes: ["greet:read", "greet:write"],
+      missingScopes: ["greet:write"],
+    });
+  });
+
+  test("surfaces OpenCALL errors thrown by the authenticator", async () => {
+    const res = await scopedDispatch({ op: "v1:profile.get", args: { id: "p1" } }, bearer("expired"));
+    expect(res.status).toBe(401);
+    expect(res.body.error?.cause).toEqual({ reason: "token expired" });
+  });
+
+  test("does not require a principal for operations without auth requirements", async () => {
+    const res = await scopedDispatch({ op: "v1:greeting.hello", args: { name: "Ada" } });
+    expect(res.status).toBe(200);
+  });
+
+  test("grants no scopes from envelope.auth without a configured authenticator", async () => {
+    const res = await createDispatcher(buildRegistryFromModules(scopedEntries))({
+      op: "v1:greeting.secure",
+      args: { name: "Ada" },
+      auth,
+    });
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("createDispatcher validateResults", () => {
+  const driftModule: OperationModule = {
+    args: z.object({ count: z.unknown() }),
+    result: z.object({ count: z.number() }),
+    handler: async (input: unknown) => ({
+      state: "complete" as const,
+      result: { count: (input as { count: unknown }).count, internal: "secret" },
+    }),
+  };
+  const built = buildRegistryFromModules([{ module: driftModule, meta: { op: "v1:counter.get" } }]);
+
+  test("does not check results by default", async () => {
+    const res = await createDispatcher(built)({ op: "v1:counter.get", args: { count: "7" } });
+    expect(res.status).toBe(200);
+    expect(res.body.result).toEqual({ count: "7", internal: "secret" });
+  });
+
+  test("returns the parsed result with unknown keys stripped", async () => {
+    const res = await createDispatcher({ ...built, validateResults: "enforce" })({
+      op: "v1:counter.get",
+      args: { count: 7 },
+    });
+    expect(res.status).toBe(200);
+    expect(res.body.result).toEqual({ count: 7 });
+  });
+
+  test("enforce returns 500 INTERNAL_ERROR with the schema issues", async () => {
+    const res = await createDispatcher({ ...built, validateResults: "enforce" })({
+      op: "v1:counter.get",
+      args: { count: "7" },
+    });
+    expect(res.status).toBe(500);
+    expect(res.body.error?.code).toBe("INTERNAL_ERROR");
+    expect(res.body.error?.cause).toMatchObject({
+      op: "v1:counter.get",
+      issues: [{ path: "count", code: "invalid_type" }],
+    });
+  });
+
+  test("warn logs the schema issues and returns the original result", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const res = await createDispatcher({ ...built, validateResults: "warn" })({
+        op: "v1:counter.get",
+        args: { count: "7" },
+        ctx: { requestId: REQUEST_ID },
+      });
+      expect(res.status).toBe(200);
+      expect(res.body.result).toEqual({ count: "7", internal: "secret" });
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0]![1]).toMatchObject({
+        op: "v1:counter.get",
+        requestId: REQUEST_ID,
+        issues: [{ path: "count" }],
+      });
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test("warn logs the schema issues to the configured logger", async () => {
+    const warnings: { message: string; fields?: Record<string, unknown> }[] = [];
+    const logger: Logger = {
+      debug: () => {},
+      info: () => {},
+      warn: (message, fields) => warnings.push({ message, fields }),
+      error: () => {},
+    };
+    await createDispatcher({ ...built, validateResults: "warn", logger })({
+      op: "v1:counter.get",
+      args: { count: "7" },
+      ctx: { requestId: REQUEST_ID },
+    });
+    expect(warnings.find((w) => w.message.startsWith("opencall: handler result"))?.fields).toMatchObject({
+      op: "v1:counter.get",
+      requestId: REQUEST_ID,
+      issues: [{ path: "count" }],
+    });
+  });
+});
+
+// ── Declared errors ──────────────────────────────────────────────────────
+
+describe("createDispatcher validateErrors", () => {
+  const OutOfStockError = defineError({
+    code: "OUT_OF_STOCK",
+    httpStatus: 200,
+    message: "Out of stock",
+    retryable: false,
+  });
+
+  const orderModule: OperationModule = {
+    args: z.object({ sku: z.string() }),
+    result: z.object({ orderId: z.string() }),
+    handler: async (input: unknown) => {
+      if ((input as { sku: string }).sku === "gone") throw new OutOfStockError();
+      throw new ItemNotFoundError();
+    },
+  };
+
+  const built = buildRegistryFromModules([
+    { module: { ...orderModule, errors: [OutOfStockError] }, meta: { op: "v1:orders.place" } },
+    { module: orderModule, meta: { op: "v1:orders.undeclared" } },
+  ]);
+
+  test("passes declared errors through", async () => {
+    const res = await createDispatcher({ ...built, validateErrors: "enforce" })({
+      op: "v1:orders.place",
+      args: { sku: "gone" },
+    });
+    expect(res.body.error?.code).toBe("OUT_OF_STOCK");
+  });
+
+  test("enforce returns 500 INTERNAL_ERROR for undeclared codes", async () => {
+    const res = await createDispatcher({ ...built, validateErrors: "enforce" })({
+      op: "v1:orders.place",
+      args: { sku: "x" },
+    });
+    expect(res.status).toBe(500);
+    expect(res.body.error?.code).toBe("INTERNAL_ERROR");
+    expect(res.body.error?.cause).toMatchObject({
+      op: "v1:orders.place",
+      code: "ITEM_NOT_FOUND",
+      declared: ["OUT_OF_STOCK"],
+    });
+  });
+
+  test("warn logs undeclared codes and returns the error", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const res = await createDispatcher({ ...built, validateErrors: "warn" })({
+        op: "v1:orders.place",
+        args: { sku: "x" },
+        ctx: { requestId: REQUEST_ID },
+      });
+      expect(res.body.error?.code).toBe("ITEM_NOT_FOUND");
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0]![1]).toEqual({
+        op: "v1:orders.place",
+        requestId: REQUEST_ID,
+        code: "ITEM_NOT_FOUND",
+        declared: ["OUT_OF_STOCK"],
+      });
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test("warn logs undeclared codes to the configured logger", async () => {
+    const warnings: { message: string; fields?: Record<string, unknown> }[] = [];
+    const logger: Logger = {
+      debug: () => {},
+      info: () => {},
+      warn: (message, fields) => warnings.push({ message, fields }),
+      error: () => {},
+    };
+    await createDispatcher({ ...built, validateErrors: "warn", logger })({
+      op: "v1:orders.place",
+      args: { sku: "x" },
+      ctx: { requestId: REQUEST_ID },
+    });
+    expect(warnings.find((w) => w.message.startsWith("opencall: handler threw"))?.fields).toEqual({
+      op: "v1:orders.place",
+      requestId: REQUEST_ID,
+      code: "ITEM_NOT_FOUND",
+      declared: ["OUT_OF_STOCK"],
+    });
+  });
+
+  test("does not check operations that declare no errors", async () => {
+    const res = await createDispatcher({ ...built, validateErrors: "enforce" })({
+      op: "v1:orders.undeclared",
+      args: { sku: "x" },
+    });
+    expect(res.body.error?.code).toBe("ITEM_NOT_FOUND");
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, expect, test } from "bun:test";
+import { z } from "zod/v4";
 import {
   BackendUnavailableError,
   DomainError,
@@ -67,6 +68,61 @@ describe("buildErrorCatalog", () => {
   });
 });
 
+describe("buildErrorCatalog messages", () => {
+  const OutOfStockError = defineError({
+    code: "OUT_OF_STOCK",
+    httpStatus: 200,
+    message: "Out of stock",
+    messages: { fr: "En rupture de stock", de: "Nicht vorrätig" },
+    retryable: false,
+  });
+
+  test("omits translations by default", () => {
+    expect(buildErrorCatalog([OutOfStockError]).errors[0]).not.toHaveProperty("messages");
+  });
+
+  test("emits translations with messages: true", () => {
+    const catalog = buildErrorCatalogFromModules([{ OutOfStockError, ItemNotFoundError }], { messages: true });
+    expect(catalog.errors).toEqual([
+      {
+        code: "ITEM_NOT_FOUND",
+        httpStatus: 200,
+        message: "Item not found",
+        retryable: false,
+        category: "domain",
+      },
+      {
+        code: "OUT_OF_STOCK",
+        httpStatus: 200,
+        message: "Out of stock",
+        messages: { fr: "En rupture de stock", de: "Nicht vorrätig" },
+        retryable: false,
+        category: "domain",
+      },
+    ]);
+  });
+});
+
+describe("buildErrorCatalog cause schemas", () => {
+  test("publishes a declared cause schema as JSON Schema", () => {
+    const OutOfStockError = defineError({
+      code: "OUT_OF_STOCK",
+      httpStatus: 200,
+      message: "Out of stock",
+      retryable: false,
+      cause: z.object({ sku: z.string() }),
+    });
+
+    const [entry] = buildErrorCatalog([OutOfStockError]).errors;
+    expect(entry?.causeSchema).toMatchObject({
+      type: "object",
+      properties: { sku: { type: "string" } },
+      required: ["sku"],
+    });
+    expect(buildErrorCatalog([ItemNotFoundError]).errors[0]).not.toHaveProperty("causeSchema");
+  });
+});
+
 describe("buildErrorCatalogFromModules", () => {
   test("uses module.errors when present", () => {
     const IgnoredExport = defineError({
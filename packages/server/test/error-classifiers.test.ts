@@ -0,0 +1,76 @@
+import { test, expect, describe } from "bun:test";
+import { classifyError, registerErrorClassifier, safeHandlerCall } from "../src/index.ts";
+
+const REQUEST_ID = "00000000-0000-0000-0000-000000000000";
+
+function withCode(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+describe("built-in classifiers", () => {
+  test("recognise fetch network failures", () => {
+    const err = new TypeError("fetch failed", { cause: withCode("read ECONNRESET", "ECONNRESET") });
+    expect(classifyError(err)).toEqual({ service: "http", retryable: true, retryAfterMs: 1_000 });
+    expect(classifyError(new TypeError("Failed to fetch"))?.service).toBe("http");
+  });
+
+  test("recognise socket and DNS error codes", () => {
+    for (const code of ["ECONNRESET", "ETIMEDOUT", "EAI_AGAIN"]) {
+      expect(classifyError(withCode(`socket ${code}`, code))).toEqual({
+        service: "network",
+        retryable: true,
+        retryAfterMs: 1_000,
+      });
+    }
+  });
+
+  test("recognise MySQL, SQLite and postgres connection failures", () => {
+    expect(classifyError(withCode("Too many connections", "ER_CON_COUNT_ERROR"))?.service).toBe("mysql");
+    expect(classifyError(withCode("database is locked", "SQLITE_BUSY"))?.service).toBe("sqlite");
+    expect(classifyError(new Error("connect ECONNREFUSED 127.0.0.1:5432"))?.service).toBe("postgres");
+  });
+
+  test("ignore ordinary errors", () => {
+    expect(classifyError(new TypeError("Cannot read properties of undefined"))).toBeUndefined();
+    expect(classifyError(new Error("syntax error at or near"))).toBeUndefined();
+    expect(classifyError("not an error")).toBeUndefined();
+  });
+});
+
+describe("registerErrorClassifier", () => {
+  const redisClassifier = (err: unknown) =>
+    err instanceof Error && err.name === "ReplyError" && err.message.startsWith("LOADING")
+      ? { service: "redis", retryable: true, retryAfterMs: 2_000 }
+      : undefined;
+
+  test("safeHandlerCall returns 503 with the classifier's service and retry hint", async () => {
+    const unregister = registerErrorClassifier(redisClassifier);
+    try {
+      const res = await safeHandlerCall(async () => {
+        throw Object.assign(new Error("LOADING Redis is loading the dataset in memory"), { name: "ReplyError" });
+      }, [], REQUEST_ID);
+
+      expect(res.status).toBe(503);
+      expect(res.body.error).toEqual({
+        code: "BACKEND_UNAVAILABLE",
+        message: "Backend temporarily unavailable",
+        cause: { service: "redis", retriable: true },
+      });
+      expect(res.body.retryAfterMs).toBe(2_000);
+    } finally {
+      unregister();
+    }
+  });
+
+  test("registered classifiers take precedence over the built-ins", () => {
+    const unregister = registerErrorClassifier((err) =>
+      (err as { code?: string }).code === "ECONNRESET" ? { service: "redis", retryable: false } : undefined,
+    );
+    try {
+      expect(classifyError(withCode("read ECONNRESET", "ECONNRESET"))).toEqual({ service: "redis", retryable: false });
+    } finally {
+      unregister();
+    }
+    expect(classifyError(withCode("read ECONNRESET", "ECONNRESET"))?.service).toBe("network");
+  });
+});
@@ -1,4 +1,5 @@
 import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
 import {
   BackendUnavailableError,
   DomainError,
@@ -7,6 +8,7 @@ import {
   defineError,
   domainError,
   isOpenCallError,
+  matchLocale,
   protocolError,
 } from "../src/index.ts";
 
@@ -77,6 +79,78 @@ describe("defineError", () => {
     expect(isOpenCallError(new Error("plain"))).toBe(false);
     expect(isOpenCallError({ __opencall: true })).toBe(false);
   });
+
+  test("translates the message for a locale, falling back to English", () => {
+    const OutOfStockError = defineError({
+      code: "OUT_OF_STOCK",
+      httpStatus: 200,
+      message: "Out of stock",
+      messages: { fr: "En rupture de stock", "pt-BR": "Fora de estoque" },
+      retryable: false,
+    });
+    const err = new OutOfStockError();
+
+    expect(OutOfStockError.messages).toEqual({ fr: "En rupture de stock", "pt-BR": "Fora de estoque" });
+    expect(err.message).toBe("Out of stock");
+    expect(err.localizedMessage("fr-CA")).toBe("En rupture de stock");
+    expect(err.localizedMessage("pt-br")).toBe("Fora de estoque");
+    expect(err.localizedMessage("pt-PT")).toBe("Out of stock");
+    expect(err.localizedMessage(undefined)).toBe("Out of stock");
+  });
+
+  test("validates the cause against the cause schema", () => {
+    const OutOfStockError = defineError({
+      code: "OUT_OF_STOCK",
+      httpStatus: 200,
+      message: "Out of stock",
+      retryable: false,
+      cause: z.object({ sku: z.string(), available: z.number().int() }),
+    });
+
+    expect(OutOfStockError.causeSchema).toBeDefined();
+    expect(new OutOfStockError({ sku: "A-1", available: 0 }).cause).toEqual({ sku: "A-1", available: 0 });
+    // @ts-expect-error available must be a number
+    expect(() => new OutOfStockError({ sku: "A-1", available: "none" })).toThrow(
+      "Invalid cause for OUT_OF_STOCK: available:",
+    );
+    // @ts-expect-error the cause is required
+    expect(() => new OutOfStockError()).toThrow("Invalid cause for OUT_OF_STOCK");
+  });
+
+  test("skips cause validation in production", () => {
+    const OutOfStockError = defineError({
+      code: "OUT_OF_STOCK",
+      httpStatus: 200,
+      message: "Out of stock",
+      retryable: false,
+      cause: z.object({ sku: z.string() }),
+    });
+    const previous = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      // @ts-expect-error sku is required
+      expect(new OutOfStockError({}).cause).toEqual({});
+    } finally {
+      process.env.NODE_ENV = previous;
+    }
+  });
+});
+
+describe("matchLocale", () => {
+  const available = ["en", "fr", "zh-Hant", "de-CH"];
+
+  test("drops trailing subtags until a tag matches", () => {
+    expect(matchLocale("fr", available)).toBe("fr");
+    expect(matchLocale("fr-CA", available)).toBe("fr");
+    expect(matchLocale("zh-hant-tw", available)).toBe("zh-Hant");
+    expect(matchLocale("de-CH-x-phonebk", available)).toBe("de-CH");
+  });
+
+  test("returns undefined without a match", () => {
+    expect(matchLocale("de", available)).toBeUndefined();
+    expect(matchLocale("zh-Hans", available)).toBeUndefined();
+    expect(matchLocale(undefined, available)).toBeUndefined();
+  });
 });
 
 describe("DomainError", () => {
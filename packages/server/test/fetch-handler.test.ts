@@ -0,0 +1,149 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildErrorCatalog,
+  buildRegistryFromModules,
+  createFetchHandler,
+  defineError,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const ItemNotFoundError = defineError({
+  code: "ITEM_NOT_FOUND",
+  httpStatus: 200,
+  message: "Item not found",
+  retryable: false,
+});
+
+const greetingModule: OperationModule = {
+  args: z.object({ name: z.string() }),
+  result: z.object({ message: z.string() }),
+  handler: async (input: unknown) => ({
+    state: "complete" as const,
+    result: { message: `Hello, ${(input as { name: string }).name}!` },
+  }),
+};
+
+const downloadModule: OperationModule = {
+  args: z.object({}),
+  result: z.object({}),
+  handler: async () => ({
+    state: "complete" as const,
+    location: { uri: "https://cdn.example.com/report.pdf" },
+  }),
+};
+
+const built = buildRegistryFromModules([
+  { module: greetingModule, meta: { op: "v1:greeting.hello" } },
+  { module: downloadModule, meta: { op: "v1:report.download" } },
+]);
+const errors = buildErrorCatalog([ItemNotFoundError]);
+const handle = createFetchHandler({ ...built, errors });
+
+const BASE = "https://api.example.com";
+
+function post(body: string): Request {
+  return new Request(`${BASE}/call`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+}
+
+// ── POST /call ───────────────────────────────────────────────────────────
+
+describe("createFetchHandler POST /call", () => {
+  test("dispatches the envelope and returns the response envelope", async () => {
+    const res = await handle(post(JSON.stringify({ op: "v1:greeting.hello", args: { name: "Ada" } })));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/json");
+    const body = await res.json();
+    expect(body.state).toBe("complete");
+    expect(body.result).toEqual({ message: "Hello, Ada!" });
+  });
+
+  test("maps dispatch status codes onto the response", async () => {
+    const res = await handle(post(JSON.stringify({ op: "v1:nope" })));
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.code).toBe("OP_NOT_FOUND");
+  });
+
+  test("returns 400 INVALID_ENVELOPE for a body that is not JSON", async () => {
+    const res = await handle(post("{not json"));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe("INVALID_ENVELOPE");
+  });
+
+  test("sets Location on 303 redirect responses", async () => {
+    const res = await handle(post(JSON.stringify({ op: "v1:report.download" })));
+    expect(res.status).toBe(303);
+    expect(res.headers.get("Location")).toBe("https://cdn.example.com/report.pdf");
+  });
+
+  test("rejects other methods with 405", async () => {
+    const res = await handle(new Request(`${BASE}/call`));
+    expect(res.status).toBe(405);
+    expect(res.headers.get("Allow")).toBe("POST");
+  });
+});
+
+// ── GET /.well-known/ops ─────────────────────────────────────────────────
+
+describe("createFetchHandler GET /.well-known/ops", () => {
+  test("serves the pre-serialized registry with its ETag", async () => {
+    const res = await handle(new Request(`${BASE}/.well-known/ops`));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("ETag")).toBe(built.etag);
+    expect(await res.text()).toBe(built.json);
+  });
+
+  test("returns 304 when If-None-Match matches the ETag", async () => {
+    const res = await handle(
+      new Request(`${BASE}/.well-known/ops`, { headers: { "If-None-Match": built.etag } }),
+    );
+    expect(res.status).toBe(304);
+    expect(res.headers.get("ETag")).toBe(built.etag);
+    expect(await res.text()).toBe("");
+  });
+
+  test("returns 200 when If-None-Match is stale", async () => {
+    const res = await handle(
+      new Request(`${BASE}/.well-known/ops`, { headers: { "If-None-Match": '"sha256:old"' } }),
+    );
+    expect(res.status).toBe(200);
+  });
+});
+
+// ── GET /.well-known/errors and unknown routes ───────────────────────────
+
+describe("createFetchHandler other routes", () => {
+  test("serves the error catalog", async () => {
+    const res = await handle(new Request(`${BASE}/.well-known/errors`));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(errors);
+  });
+
+  test("returns 404 for /.well-known/errors when no catalog is configured", async () => {
+    const res = await createFetchHandler(built)(new Request(`${BASE}/.well-known/errors`));
+    expect(res.status).toBe(404);
+  });
+
+  test("returns 404 for unknown routes", async () => {
+    const res = await handle(new Request(`${BASE}/nope`));
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.code).toBe("NOT_FOUND");
+  });
+});
+
+// ── Body size limits ─────────────────────────────────────────────────────
+
+describe("createFetchHandler maxBodyBytes", () => {
+  test("returns 413 PAYLOAD_TOO_LARGE when the body exceeds the limit", async () => {
+    const limited = createFetchHandler({ ...built, maxBodyBytes: 16 });
+    const res = await limited(post(JSON.stringify({ op: "v1:greeting.hello", args: { name: "Ada" } })));
+    expect(res.status).toBe(413);
+    expect((await res.json()).error.code).toBe("PAYLOAD_TOO_LARGE");
+  });
+});
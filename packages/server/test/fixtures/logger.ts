@@ -0,0 +1,15 @@
+import type { Logger } from "../../src/index.ts";
+
+export interface LogRecord {
+  level: string;
+  message: string;
+  fields?: Record<string, unknown>;
+}
+
+/** A Logger that keeps every record in `records`, in call order */
+export function memoryLogger(): Logger & { records: LogRecord[] } {
+  const records: LogRecord[] = [];
+  const log = (level: string) => (message: string, fields?: Record<string, unknown>) =>
+    records.push({ level, message, fields });
+  return { records, debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
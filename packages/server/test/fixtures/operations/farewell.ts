@@ -1,4 +1,5 @@
 import { z } from "zod/v4";
+import { defineError } from "@opencall/types";
 
 /**
  * Say goodbye (deprecated, will be removed).
@@ -17,8 +18,18 @@ import { z } from "zod/v4";
  * @telemetrySensitive name
  * @sunset 2025-01-01
  * @replacement v1:greeting.goodbye
+ * @errors FAREWELL_REFUSED
  */
 
+export const NameUnknownError = defineError({
+  code: "NAME_UNKNOWN",
+  httpStatus: 200,
+  message: "Nobody by that name is here",
+  retryable: false,
+});
+
+export const errors = [NameUnknownError];
+
 export const args = z.object({
   name: z.string(),
 });
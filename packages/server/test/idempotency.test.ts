@@ -0,0 +1,197 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createDispatcher,
+  createMemoryIdempotencyStore,
+  extractIdempotencyKey,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+let charges = 0;
+let release: (() => void) | undefined;
+
+const chargeModule: OperationModule = {
+  args: z.object({ amount: z.number() }),
+  result: z.object({ chargeId: z.number(), amount: z.number() }),
+  handler: async (input: unknown) => {
+    const { amount } = input as { amount: number };
+    if (amount < 0) throw new Error("connect ECONNREFUSED 127.0.0.1:5432");
+    if (amount === 0) await new Promise<void>((resolve) => (release = resolve));
+    charges++;
+    return { state: "complete" as const, result: { chargeId: charges, amount } };
+  },
+};
+
+const built = buildRegistryFromModules([
+  {
+    module: chargeModule,
+    meta: {
+      op: "v1:payments.charge",
+      flags: "sideEffecting",
+      idempotency: { required: true, ttlSeconds: 60, keyHeader: "Idempotency-Key" },
+    },
+  },
+]);
+
+let refundAttempts = 0;
+
+/** Overruns its 20ms SyncPolicy budget on the first attempt only */
+const refundModule: OperationModule = {
+  args: z.object({ amount: z.number() }),
+  result: z.object({ attempt: z.number() }),
+  handler: async () => {
+    const attempt = ++refundAttempts;
+    if (attempt === 1) await new Promise((resolve) => setTimeout(resolve, 100));
+    return { state: "complete" as const, result: { attempt } };
+  },
+};
+
+const retried = buildRegistryFromModules([
+  {
+    module: refundModule,
+    meta: {
+      op: "v1:payments.refund",
+      flags: "sideEffecting",
+      timeout: 20,
+      onTimeout: "retry",
+      idempotency: { required: true, ttlSeconds: 60 },
+    },
+  },
+]);
+
+function charge(amount: number, key?: string, sub = "user:1") {
+  return {
+    op: "v1:payments.charge",
+    args: { amount },
+    ...(key && { ctx: { idempotencyKey: key } }),
+    auth: { iss: "auth.example.com", sub, credentialType: "bearer" },
+  };
+}
+
+// ── extractIdempotencyKey ────────────────────────────────────────────────
+
+describe("extractIdempotencyKey", () => {
+  const policy = { supported: true, required: false, keyHeader: "Idempotency-Key" };
+
+  test("prefers ctx.idempotencyKey from the envelope", () => {
+    const headers = new Headers({ "Idempotency-Key": "from-header" });
+    expect(
+      extractIdempotencyKey({ op: "x", args: {}, ctx: { idempotencyKey: "from-ctx" } }, headers, policy),
+    ).toBe("from-ctx");
+  });
+
+  test("falls back to the policy's keyHeader", () => {
+    const headers = new Headers({ "Idempotency-Key": "from-header" });
+    expect(extractIdempotencyKey({ op: "x", args: {} }, headers, policy)).toBe("from-header");
+  });
+
+  test("ignores headers when the policy declares no keyHeader", () => {
+    const headers = new Headers({ "Idempotency-Key": "from-header" });
+    expect(extractIdempotencyKey({ op: "x", args: {} }, headers, { supported: true, required: false })).toBeUndefined();
+  });
+});
+
+// ── Dispatcher integration ───────────────────────────────────────────────
+
+describe("createDispatcher idempotency", () => {
+  test("rejects a missing key when the policy requires one", async () => {
+    const dispatch = createDispatcher(built);
+    const res = await dispatch(charge(10));
+    expect(res.status).toBe(400);
+    expect(res.body.error?.code).toBe("IDEMPOTENCY_KEY_REQUIRED");
+    expect(res.body.error?.cause).toEqual({ op: "v1:payments.charge", keyHeader: "Idempotency-Key" });
+  });
+
+  test("replays the first result for a repeated key", async () => {
+    const dispatch = createDispatcher({ ...built, idempotency: createMemoryIdempotencyStore() });
+    const first = await dispatch(charge(10, "key-1"));
+    const second = await dispatch(charge(10, "key-1"));
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(second.body.result).toEqual(first.body.result);
+    expect(second.body.requestId).toBe(first.body.requestId);
+    expect(second.body.meta).toEqual({ idempotentReplay: true });
+    expect(first.body.meta).toBeUndefined();
+  });
+
+  test("reads the key from the configured header", async () => {
+    const dispatch = createDispatcher({ ...built, idempotency: createMemoryIdempotencyStore() });
+    const headers = new Headers({ "Idempotency-Key": "hdr-1" });
+    const first = await dispatch(charge(10), { headers });
+    const second = await dispatch(charge(10), { headers });
+    expect(second.body.result).toEqual(first.body.result);
+  });
+
+  test("scopes keys per subject", async () => {
+    const dispatch = createDispatcher({ ...built, idempotency: createMemoryIdempotencyStore() });
+    const first = await dispatch(charge(10, "shared", "user:1"));
+    const second = await dispatch(charge(10, "shared", "user:2"));
+    expect(second.body.result).not.toEqual(first.body.result);
+  });
+
+  test("returns IDEMPOTENCY_CONFLICT when a key is reused with different args", async () => {
+    const dispatch = createDispatcher({ ...built, idempotency: createMemoryIdempotencyStore() });
+    await dispatch(charge(10, "key-2"));
+    const res = await dispatch(charge(20, "key-2"));
+    expect(res.status).toBe(422);
+    expect(res.body.error?.code).toBe("IDEMPOTENCY_CONFLICT");
+  });
+
+  test("returns IDEMPOTENCY_IN_PROGRESS for an in-flight duplicate", async () => {
+    const dispatch = createDispatcher({ ...built, idempotency: createMemoryIdempotencyStore() });
+    const pending = dispatch(charge(0, "key-3"));
+    await Promise.resolve();
+    const duplicate = await dispatch(charge(0, "key-3"));
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body.error?.code).toBe("IDEMPOTENCY_IN_PROGRESS");
+
+    release?.();
+    expect((await pending).status).toBe(200);
+  });
+
+  test("does not store 5xx results so the retry runs again", async () => {
+    const store = createMemoryIdempotencyStore();
+    const dispatch = createDispatcher({ ...built, idempotency: store });
+    const first = await dispatch(charge(-1, "key-4"));
+    expect(first.status).toBe(503);
+    expect(await store.claim("v1:payments.charge\u0000user:1\u0000key-4", "x", 60)).toEqual({
+      status: "claimed",
+    });
+  });
+
+  test("does not store a pending retry timeout so the retry runs the operation", async () => {
+    const dispatch = createDispatcher({ ...retried, idempotency: createMemoryIdempotencyStore() });
+    const refund = { op: "v1:payments.refund", args: { amount: 5 }, ctx: { idempotencyKey: "key-5" } };
+
+    const first = await dispatch(refund);
+    expect(first.status).toBe(202);
+    expect(first.body.state).toBe("pending");
+
+    const retry = await dispatch(refund);
+    expect(retry.status).toBe(200);
+    expect(retry.body.result).toEqual({ attempt: 2 });
+    expect(retry.body.meta?.idempotentReplay).toBeUndefined();
+  });
+});
+
+// ── createMemoryIdempotencyStore ─────────────────────────────────────────
+
+describe("createMemoryIdempotencyStore", () => {
+  test("expires records after ttlSeconds", async () => {
+    const store = createMemoryIdempotencyStore();
+    await store.claim("k", "fp", 0);
+    expect(await store.claim("k", "fp", 60)).toEqual({ status: "claimed" });
+  });
+
+  test("reports completed records with their result", async () => {
+    const store = createMemoryIdempotencyStore();
+    await store.claim("k", "fp", 60);
+    const result = { status: 200, body: { requestId: "r", state: "complete" as const } };
+    await store.complete("k", result, 60);
+    expect(await store.claim("k", "fp", 60)).toEqual({ status: "complete", fingerprint: "fp", result });
+  });
+});
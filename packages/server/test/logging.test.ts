@@ -0,0 +1,146 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createDispatcher,
+  createJsonLogger,
+  defineError,
+  redactArgs,
+  REDACTED,
+  type OperationModule,
+} from "../src/index.ts";
+import { memoryLogger } from "./fixtures/logger.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const AccountLockedError = defineError({
+  code: "ACCOUNT_LOCKED",
+  httpStatus: 200,
+  message: "Account is locked",
+  retryable: false,
+});
+
+const transferModule: OperationModule = {
+  args: z.object({ accountNumber: z.string(), amount: z.number() }),
+  result: z.object({ ok: z.boolean() }),
+  handler: async (input: unknown) => {
+    const { accountNumber } = input as { accountNumber: string };
+    if (accountNumber === "locked") throw new AccountLockedError({ accountNumber: "locked" });
+    if (accountNumber === "crash") throw new Error("ledger unreachable");
+    return { state: "complete" as const, result: { ok: true } };
+  },
+};
+
+const built = buildRegistryFromModules([
+  {
+    module: transferModule,
+    meta: {
+      op: "v1:payments.transfer",
+      telemetry: { spanName: "payments.transfer", sensitive: ["accountNumber"] },
+    },
+  },
+]);
+
+const REQUEST_ID = "550e8400-e29b-41d4-a716-446655440000";
+const SESSION_ID = "660e8400-e29b-41d4-a716-446655440000";
+const PARENT_ID = "770e8400-e29b-41d4-a716-446655440000";
+
+// ── Dispatcher logging ───────────────────────────────────────────────────
+
+describe("createDispatcher logger", () => {
+  test("emits one access record per call with sensitive fields redacted", async () => {
+    const logger = memoryLogger();
+    const dispatch = createDispatcher({ ...built, logger });
+    await dispatch({
+      op: "v1:payments.transfer",
+      args: { accountNumber: "12-3456", amount: 250 },
+      ctx: { requestId: REQUEST_ID, sessionId: SESSION_ID, parentId: PARENT_ID },
+      auth: { iss: "auth.example.com", sub: "user:42", credentialType: "bearer", credential: "secret-token" },
+    });
+
+    expect(logger.records).toHaveLength(1);
+    const [record] = logger.records;
+    expect(record!.level).toBe("info");
+    expect(record!.message).toBe("opencall.call");
+    expect(record!.fields).toMatchObject({
+      op: "v1:payments.transfer",
+      requestId: REQUEST_ID,
+      sessionId: SESSION_ID,
+      parentId: PARENT_ID,
+      subject: "user:42",
+      status: 200,
+      state: "complete",
+      args: { accountNumber: REDACTED, amount: 250 },
+      auth: { sub: "user:42", credential: REDACTED },
+      durationMs: expect.any(Number),
+    });
+    expect(JSON.stringify(logger.records)).not.toContain("secret-token");
+    expect(JSON.stringify(logger.records)).not.toContain("12-3456");
+  });
+
+  test("records the error code and logs unexpected handler errors via error", async () => {
+    const logger = memoryLogger();
+    await createDispatcher({ ...built, logger })({
+      op: "v1:payments.transfer",
+      args: { accountNumber: "crash", amount: 1 },
+      ctx: { requestId: REQUEST_ID },
+    });
+
+    expect(logger.records.map((r) => [r.level, r.message])).toEqual([
+      ["error", "opencall.error"],
+      ["info", "opencall.call"],
+    ]);
+    expect(logger.records[0]!.fields).toMatchObject({
+      op: "v1:payments.transfer",
+      requestId: REQUEST_ID,
+      error: { name: "Error", message: "ledger unreachable", stack: expect.any(String) },
+    });
+    expect(logger.records[1]!.fields).toMatchObject({ status: 500, errorCode: "INTERNAL_ERROR" });
+  });
+
+  test("serializes OpenCALL errors with toLog() at warn level", async () => {
+    const logger = memoryLogger();
+    await createDispatcher({ ...built, logger })({
+      op: "v1:payments.transfer",
+      args: { accountNumber: "locked", amount: 1 },
+    });
+
+    expect(logger.records[0]!.level).toBe("warn");
+    expect(logger.records[0]!.fields).toMatchObject({
+      error: { code: "ACCOUNT_LOCKED", category: "domain", httpStatus: 200, cause: { accountNumber: "locked" } },
+    });
+    expect(logger.records[1]!.fields).toMatchObject({ errorCode: "ACCOUNT_LOCKED" });
+  });
+
+  test("logs invalid envelopes", async () => {
+    const logger = memoryLogger();
+    await createDispatcher({ ...built, logger })({ args: {} });
+    expect(logger.records).toHaveLength(1);
+    expect(logger.records[0]!.fields).toMatchObject({ status: 400, errorCode: "INVALID_ENVELOPE" });
+  });
+});
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+describe("createJsonLogger", () => {
+  test("writes one JSON line per record at or above the level", () => {
+    const lines: string[] = [];
+    const logger = createJsonLogger({ level: "info", write: (line) => lines.push(line) });
+    logger.debug("hidden");
+    logger.info("opencall.call", { op: "v1:x.y" });
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]!)).toMatchObject({ level: "info", msg: "opencall.call", op: "v1:x.y" });
+  });
+});
+
+describe("redactArgs", () => {
+  test("redacts nested paths without mutating the input", () => {
+    const args = { card: { number: "4111", expiry: "12/30" }, amount: 5 };
+    expect(redactArgs(args, ["args.card.number", "missing.path"])).toEqual({
+      card: { number: REDACTED, expiry: "12/30" },
+      amount: 5,
+    });
+    expect(args.card.number).toBe("4111");
+  });
+});
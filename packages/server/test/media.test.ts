@@ -0,0 +1,153 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createDispatcher,
+  createFetchHandler,
+  resolveMedia,
+  type MediaSchemaEntry,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const avatarModule: OperationModule & { mediaSchema: MediaSchemaEntry[] } = {
+  args: z.object({ userId: z.string() }),
+  result: z.object({ files: z.record(z.string(), z.object({ type: z.string(), size: z.number() })) }),
+  mediaSchema: [
+    { name: "avatar", required: true, acceptedTypes: ["image/*"], maxBytes: 1024 },
+    { name: "notes", acceptedTypes: ["text/plain"] },
+  ],
+  handler: async (_input, { media }) => {
+    const files = Object.fromEntries(
+      Object.entries(media).map(([name, blob]) => [name, { type: blob.type, size: blob.size }]),
+    );
+    return { state: "complete" as const, result: { files } };
+  },
+};
+
+const built = buildRegistryFromModules([
+  { module: avatarModule, meta: { op: "v1:users.setAvatar" } },
+]);
+
+const png = (size: number) => new Blob([new Uint8Array(size)], { type: "image/png" });
+const pdf = (size: number) => new Blob([new Uint8Array(size)], { type: "application/pdf" });
+
+function upload(
+  media: { name: string; mimeType: string; part?: string; ref?: string }[],
+  parts: Record<string, Blob>,
+): Request {
+  const form = new FormData();
+  form.set("envelope", JSON.stringify({ op: "v1:users.setAvatar", args: { userId: "u1" }, media }));
+  for (const [name, blob] of Object.entries(parts)) form.set(name, blob, name);
+  return new Request("http://localhost/call", { method: "POST", body: form });
+}
+
+// ── Fetch handler ────────────────────────────────────────────────────────
+
+describe("multipart/form-data POST /call", () => {
+  test("hands the handler the uploaded media keyed by name", async () => {
+    const handle = createFetchHandler(built);
+    const res = await handle(
+      upload(
+        [
+          { name: "avatar", mimeType: "image/png", part: "file0" },
+          { name: "notes", mimeType: "text/plain", part: "file1" },
+        ],
+        { file0: png(512), file1: new Blob(["hello"]) },
+      ),
+    );
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { result: unknown };
+    expect(body.result).toEqual({
+      files: {
+        avatar: { type: "image/png", size: 512 },
+        notes: { type: expect.stringMatching(/^text\/plain/), size: 5 },
+      },
+    });
+  });
+
+  test("returns 400 MEDIA_REQUIRED when required media is missing", async () => {
+    const res = await createFetchHandler(built)(upload([], {}));
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).error.code).toBe("MEDIA_REQUIRED");
+  });
+
+  test("returns 415 UNSUPPORTED_MEDIA_TYPE for a type outside acceptedTypes", async () => {
+    const res = await createFetchHandler(built)(
+      upload([{ name: "avatar", mimeType: "application/pdf", part: "file0" }], { file0: pdf(10) }),
+    );
+    expect(res.status).toBe(415);
+    const body = (await res.json()) as any;
+    expect(body.error.code).toBe("UNSUPPORTED_MEDIA_TYPE");
+    expect(body.error.cause).toEqual({
+      name: "avatar",
+      mimeType: "application/pdf",
+      acceptedTypes: ["image/*"],
+    });
+  });
+
+  test("returns 415 UNSUPPORTED_MEDIA_TYPE for a part whose type is not the declared mimeType", async () => {
+    // Bun types parsed parts by their filename extension
+    const res = await createFetchHandler(built)(
+      upload([{ name: "avatar", mimeType: "image/png", part: "scan.pdf" }], { "scan.pdf": pdf(10) }),
+    );
+    expect(res.status).toBe(415);
+    const body = (await res.json()) as any;
+    expect(body.error.code).toBe("UNSUPPORTED_MEDIA_TYPE");
+    expect(body.error.cause).toEqual({ name: "avatar", mimeType: "image/png", partType: "application/pdf" });
+  });
+
+  test("returns 413 MEDIA_TOO_LARGE for a part above maxBytes", async () => {
+    const res = await createFetchHandler(built)(
+      upload([{ name: "avatar", mimeType: "image/png", part: "file0" }], { file0: png(2048) }),
+    );
+    expect(res.status).toBe(413);
+    const body = (await res.json()) as any;
+    expect(body.error.code).toBe("MEDIA_TOO_LARGE");
+    expect(body.error.cause).toEqual({ name: "avatar", size: 2048, maxBytes: 1024 });
+  });
+
+  test("returns 413 PAYLOAD_TOO_LARGE above maxMultipartBytes", async () => {
+    const res = await createFetchHandler({ ...built, maxMultipartBytes: 1000 })(
+      upload([{ name: "avatar", mimeType: "image/png", part: "file0" }], { file0: png(5000) }),
+    );
+    expect(res.status).toBe(413);
+    expect(((await res.json()) as any).error.code).toBe("PAYLOAD_TOO_LARGE");
+  });
+
+  test("returns 400 INVALID_ENVELOPE without an envelope part or for a missing part", async () => {
+    const handle = createFetchHandler(built);
+    const form = new FormData();
+    form.set("file0", png(1), "file0");
+    const noEnvelope = await handle(new Request("http://localhost/call", { method: "POST", body: form }));
+    expect(noEnvelope.status).toBe(400);
+    expect(((await noEnvelope.json()) as any).error.code).toBe("INVALID_ENVELOPE");
+
+    const missingPart = await handle(
+      upload([{ name: "avatar", mimeType: "image/png", part: "nope" }], {}),
+    );
+    expect(missingPart.status).toBe(400);
+    expect(((await missingPart.json()) as any).error.code).toBe("INVALID_ENVELOPE");
+  });
+});
+
+// ── resolveMedia ─────────────────────────────────────────────────────────
+
+describe("resolveMedia", () => {
+  test("counts ref media as present without fetching them", () => {
+    const result = resolveMedia(
+      avatarModule.mediaSchema,
+      [{ name: "avatar", mimeType: "image/jpeg", ref: "https://cdn.example.com/a.jpg" }],
+      undefined,
+    );
+    expect(result).toEqual({ ok: true, files: {} });
+  });
+
+  test("JSON envelopes without media are rejected when media is required", async () => {
+    const res = await createDispatcher(built)({ op: "v1:users.setAvatar", args: { userId: "u1" } });
+    expect(res.status).toBe(400);
+    expect(res.body.error?.code).toBe("MEDIA_REQUIRED");
+  });
+});
@@ -0,0 +1,127 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createNodeHandler,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const echoModule: OperationModule = {
+  args: z.object({ text: z.string() }),
+  result: z.object({ text: z.string() }),
+  handler: async (input: unknown) => ({
+    state: "complete" as const,
+    result: { text: (input as { text: string }).text },
+  }),
+};
+
+let produced = 0;
+
+async function* ticks(): AsyncIterable<unknown> {
+  while (true) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    yield { tick: ++produced };
+  }
+}
+
+const tickModule: OperationModule = {
+  args: z.object({}),
+  result: z.unknown(),
+  frameSchema: z.object({ tick: z.number() }),
+  handler: async () => ({ state: "streaming" as const, frames: ticks() }),
+};
+
+const built = buildRegistryFromModules([
+  { module: echoModule, meta: { op: "v1:echo" } },
+  {
+    module: tickModule,
+    meta: {
+      op: "v1:clock.ticks",
+      execution: "stream",
+      stream: { supportedTransports: ["sse"], supportedEncodings: ["json"], ttlSeconds: 60 },
+    },
+  },
+]);
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = createServer(createNodeHandler({ ...built, maxBodyBytes: 1024 }));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+function post(body: string): Promise<Response> {
+  return fetch(`${base}/call`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+}
+
+// ── createNodeHandler ────────────────────────────────────────────────────
+
+describe("createNodeHandler", () => {
+  test("dispatches POST /call", async () => {
+    const res = await post(JSON.stringify({ op: "v1:echo", args: { text: "hi" } }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("application/json");
+    expect((await res.json()).result).toEqual({ text: "hi" });
+  });
+
+  test("returns 400 INVALID_ENVELOPE for a body that is not JSON", async () => {
+    const res = await post("{not json");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe("INVALID_ENVELOPE");
+  });
+
+  test("returns 413 PAYLOAD_TOO_LARGE above maxBodyBytes", async () => {
+    const res = await post(JSON.stringify({ op: "v1:echo", args: { text: "x".repeat(2048) } }));
+    expect(res.status).toBe(413);
+    const body = await res.json();
+    expect(body.error.code).toBe("PAYLOAD_TOO_LARGE");
+    expect(body.error.cause).toEqual({ maxBodyBytes: 1024 });
+  });
+
+  test("serves /.well-known/ops with conditional GET", async () => {
+    const first = await fetch(`${base}/.well-known/ops`);
+    expect(first.status).toBe(200);
+    expect(first.headers.get("etag")).toBe(built.etag);
+    expect(await first.text()).toBe(built.json);
+
+    const second = await fetch(`${base}/.well-known/ops`, {
+      headers: { "If-None-Match": built.etag },
+    });
+    expect(second.status).toBe(304);
+  });
+
+  test("shares routing semantics with the fetch handler", async () => {
+    const res = await fetch(`${base}/call`);
+    expect(res.status).toBe(405);
+    expect(res.headers.get("allow")).toBe("POST");
+  });
+
+  test("stops pulling stream frames once the client disconnects", async () => {
+    const { stream } = await (await post(JSON.stringify({ op: "v1:clock.ticks", args: {} }))).json();
+    const disconnect = new AbortController();
+    const res = await fetch(`${base}${stream.location}`, { signal: disconnect.signal });
+    const reader = res.body!.getReader();
+    await reader.read();
+    disconnect.abort();
+    await reader.cancel().catch(() => {});
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const afterDisconnect = produced;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(produced).toBe(afterDisconnect);
+  });
+});
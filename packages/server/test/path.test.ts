@@ -0,0 +1,128 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  coerceQueryArgs,
+  createFetchHandler,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const listArgs = z.object({
+  limit: z.number().int().default(20),
+  inStock: z.boolean().optional(),
+  tags: z.array(z.string()).optional(),
+  minPrice: z.number().nullable().optional(),
+  sort: z.enum(["name", "price"]).optional(),
+});
+
+const listModule: OperationModule = {
+  args: listArgs,
+  result: z.object({ received: z.unknown() }),
+  handler: async (input: unknown) => ({ state: "complete" as const, result: { received: input } }),
+};
+
+const createModule: OperationModule = {
+  args: z.object({ name: z.string() }),
+  result: z.object({ id: z.string() }),
+  handler: async () => ({ state: "complete" as const, result: { id: "item-1" } }),
+};
+
+const uncachedModule: OperationModule = {
+  args: z.object({}),
+  result: z.object({ now: z.number() }),
+  handler: async () => ({ state: "complete" as const, result: { now: 1 } }),
+};
+
+const entries = [
+  { module: listModule, meta: { op: "v1:catalog.list", cache: "public" as const, cacheTtl: 60 } },
+  { module: createModule, meta: { op: "v1:catalog.create", flags: "sideEffecting" } },
+  { module: uncachedModule, meta: { op: "v1:clock.now" } },
+];
+
+const handle = createFetchHandler(buildRegistryFromModules(entries, { endpoints: ["rpc", "path"] }));
+
+const BASE = "https://api.example.com";
+
+// ── coerceQueryArgs ──────────────────────────────────────────────────────
+
+describe("coerceQueryArgs", () => {
+  test("coerces values to the types the args schema expects", () => {
+    const args = coerceQueryArgs(
+      listArgs,
+      new URLSearchParams("limit=10&inStock=false&tags=a&tags=b&minPrice=null&sort=price"),
+    );
+    expect(args).toEqual({ limit: 10, inStock: false, tags: ["a", "b"], minPrice: null, sort: "price" });
+  });
+
+  test("passes uncoercible values and unknown keys through as strings", () => {
+    const args = coerceQueryArgs(listArgs, new URLSearchParams("limit=ten&inStock=maybe&extra=1"));
+    expect(args).toEqual({ limit: "ten", inStock: "maybe", extra: "1" });
+  });
+
+  test("parses JSON-encoded objects", () => {
+    const schema = z.object({ range: z.object({ from: z.number(), to: z.number() }) });
+    const args = coerceQueryArgs(schema, new URLSearchParams({ range: '{"from":1,"to":5}' }));
+    expect(args).toEqual({ range: { from: 1, to: 5 } });
+  });
+});
+
+// ── GET /ops/{op} ────────────────────────────────────────────────────────
+
+describe("createFetchHandler GET /ops/{op}", () => {
+  test("invokes the operation with coerced query args and the POST /call envelope", async () => {
+    const res = await handle(new Request(`${BASE}/ops/v1:catalog.list?limit=10&tags=a&tags=b`));
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { requestId: string; state: string; result: unknown };
+    expect(body.state).toBe("complete");
+    expect(body.requestId).toBeTruthy();
+    expect(body.result).toEqual({ received: { limit: 10, tags: ["a", "b"] } });
+  });
+
+  test("returns 400 SCHEMA_VALIDATION_FAILED for a value that does not coerce", async () => {
+    const res = await handle(new Request(`${BASE}/ops/v1:catalog.list?limit=ten`));
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).error.code).toBe("SCHEMA_VALIDATION_FAILED");
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+  });
+
+  test("sets Cache-Control and ETag from the CachePolicy and answers If-None-Match with 304", async () => {
+    const res = await handle(new Request(`${BASE}/ops/v1:catalog.list?limit=5`));
+    expect(res.headers.get("Cache-Control")).toBe("public, max-age=60");
+    const etag = res.headers.get("ETag");
+    expect(etag).toMatch(/^W\/"[a-f0-9]{64}"$/);
+
+    const revalidated = await handle(
+      new Request(`${BASE}/ops/v1:catalog.list?limit=5`, { headers: { "If-None-Match": etag! } }),
+    );
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.headers.get("ETag")).toBe(etag);
+  });
+
+  test("operations without an enabled CachePolicy are no-store", async () => {
+    const res = await handle(new Request(`${BASE}/ops/v1:clock.now`));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    expect(res.headers.get("ETag")).toBeNull();
+  });
+
+  test("rejects side-effecting operations with 405", async () => {
+    const res = await handle(new Request(`${BASE}/ops/v1:catalog.create?name=x`));
+    expect(res.status).toBe(405);
+    expect(res.headers.get("Allow")).toBe("POST");
+    expect(((await res.json()) as any).error.code).toBe("METHOD_NOT_ALLOWED");
+  });
+
+  test("only GET is allowed", async () => {
+    const res = await handle(new Request(`${BASE}/ops/v1:catalog.list`, { method: "PUT" }));
+    expect(res.status).toBe(405);
+    expect(res.headers.get("Allow")).toBe("GET");
+  });
+
+  test("is not served unless the registry advertises the path endpoint", async () => {
+    const rpcOnly = createFetchHandler(buildRegistryFromModules(entries));
+    const res = await rpcOnly(new Request(`${BASE}/ops/v1:catalog.list`));
+    expect(res.status).toBe(404);
+  });
+});
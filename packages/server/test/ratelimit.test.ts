@@ -0,0 +1,155 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createDispatcher,
+  createMemoryRateLimitStore,
+  parseRateLimit,
+  type Authenticator,
+  type OperationModule,
+  type RateLimitPolicy,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const reportModule: OperationModule = {
+  args: z.object({}),
+  result: z.object({ ok: z.boolean() }),
+  handler: async () => ({ state: "complete" as const, result: { ok: true } }),
+};
+
+function build(rateLimit: RateLimitPolicy) {
+  return buildRegistryFromModules([
+    { module: reportModule, meta: { op: "v1:reports.run", rateLimit } },
+  ]);
+}
+
+/** Stands in for a real authenticator that has verified `envelope.auth` */
+const authenticator: Authenticator = {
+  authenticate: ({ envelope }) => envelope.auth && { sub: envelope.auth.sub, scopes: [] },
+};
+
+const as = (sub: string) => ({
+  op: "v1:reports.run",
+  args: {},
+  auth: { iss: "test", sub, credentialType: "bearer" },
+});
+
+// ── parseRateLimit ───────────────────────────────────────────────────────
+
+describe("parseRateLimit", () => {
+  test("parses limit, window and per", () => {
+    expect(parseRateLimit("100/min per=subject")).toEqual({ limit: 100, windowMs: 60_000, per: "subject" });
+    expect(parseRateLimit("10/30s per=global")).toEqual({ limit: 10, windowMs: 30_000, per: "global" });
+    expect(parseRateLimit("5000/hour")).toEqual({ limit: 5000, windowMs: 3_600_000, per: "subject" });
+  });
+
+  test("returns undefined for malformed values", () => {
+    expect(parseRateLimit(undefined)).toBeUndefined();
+    expect(parseRateLimit("fast")).toBeUndefined();
+    expect(parseRateLimit("100/fortnight")).toBeUndefined();
+    expect(parseRateLimit("0/min")).toBeUndefined();
+  });
+});
+
+// ── createMemoryRateLimitStore ───────────────────────────────────────────
+
+describe("createMemoryRateLimitStore", () => {
+  test("allows a burst up to the limit, then reports when the next token arrives", async () => {
+    const store = createMemoryRateLimitStore();
+    const policy: RateLimitPolicy = { limit: 2, windowMs: 1000, per: "subject" };
+
+    expect(await store.take("k", policy)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(await store.take("k", policy)).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+
+    const denied = await store.take("k", policy);
+    expect(denied.allowed).toBe(false);
+    expect(denied.retryAfterMs).toBeGreaterThan(0);
+    expect(denied.retryAfterMs).toBeLessThanOrEqual(500);
+  });
+
+  test("refills over time", async () => {
+    const store = createMemoryRateLimitStore();
+    const policy: RateLimitPolicy = { limit: 1, windowMs: 50, per: "global" };
+
+    expect((await store.take("k", policy)).allowed).toBe(true);
+    expect((await store.take("k", policy)).allowed).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect((await store.take("k", policy)).allowed).toBe(true);
+  });
+
+  test("evicts the least recently used bucket beyond 10,000", async () => {
+    const store = createMemoryRateLimitStore();
+    const policy: RateLimitPolicy = { limit: 1, windowMs: 60_000, per: "subject" };
+
+    expect((await store.take("first", policy)).allowed).toBe(true);
+    for (let i = 0; i < 10_000; i++) await store.take(`k${i}`, policy);
+    expect((await store.take("first", policy)).allowed).toBe(true);
+    expect((await store.take("k9999", policy)).allowed).toBe(false);
+  });
+});
+
+// ── Dispatcher ───────────────────────────────────────────────────────────
+
+describe("rate limiting in createDispatcher", () => {
+  test("publishes the policy in the registry", () => {
+    const { registry } = build({ limit: 100, windowMs: 60_000, per: "subject" });
+    expect(registry.operations[0]?.rateLimit).toEqual({ limit: 100, windowMs: 60_000, per: "subject" });
+  });
+
+  test("returns 429 RATE_LIMITED with retryAfterMs once the bucket is empty", async () => {
+    const dispatch = createDispatcher(build({ limit: 2, windowMs: 60_000, per: "subject" }));
+    expect((await dispatch(as("alice"))).status).toBe(200);
+    expect((await dispatch(as("alice"))).status).toBe(200);
+
+    const limited = await dispatch(as("alice"));
+    expect(limited.status).toBe(429);
+    expect(limited.body.error?.code).toBe("RATE_LIMITED");
+    expect(limited.body.error?.cause).toEqual({
+      op: "v1:reports.run",
+      limit: 2,
+      windowMs: 60_000,
+      per: "subject",
+    });
+    expect(limited.body.retryAfterMs).toBeGreaterThan(29_000);
+    expect(limited.body.retryAfterMs).toBeLessThanOrEqual(30_000);
+    expect(limited.headers).toEqual({ "Retry-After": "30" });
+  });
+
+  test("per=subject gives each subject its own bucket", async () => {
+    const dispatch = createDispatcher({ ...build({ limit: 1, windowMs: 60_000, per: "subject" }), authenticator });
+    expect((await dispatch(as("alice"))).status).toBe(200);
+    expect((await dispatch(as("alice"))).status).toBe(429);
+    expect((await dispatch(as("bob"))).status).toBe(200);
+  });
+
+  test("per=subject shares one bucket for unverified envelope.auth subjects", async () => {
+    const dispatch = createDispatcher(build({ limit: 1, windowMs: 60_000, per: "subject" }));
+    expect((await dispatch(as("alice"))).status).toBe(200);
+    expect((await dispatch(as("mallory-1"))).status).toBe(429);
+  });
+
+  test("per=global shares one bucket across subjects", async () => {
+    const dispatch = createDispatcher(build({ limit: 1, windowMs: 60_000, per: "global" }));
+    expect((await dispatch(as("alice"))).status).toBe(200);
+    expect((await dispatch(as("bob"))).status).toBe(429);
+  });
+
+  test("uses a supplied store", async () => {
+    const taken: string[] = [];
+    const dispatch = createDispatcher({
+      ...build({ limit: 1, windowMs: 60_000, per: "subject" }),
+      authenticator,
+      rateLimits: {
+        async take(key) {
+          taken.push(key);
+          return { allowed: true, remaining: 0, retryAfterMs: 0 };
+        },
+      },
+    });
+    await dispatch(as("alice"));
+    await dispatch(as("alice"));
+    const key = JSON.stringify(["v1:reports.run", "alice"]);
+    expect(taken).toEqual([key, key]);
+  });
+});
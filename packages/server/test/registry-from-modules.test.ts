@@ -1,7 +1,7 @@
 import { test, expect, describe } from "bun:test";
 import { z } from "zod/v4";
 import { buildRegistryFromModules } from "../src/registry.ts";
-import type { OperationModule } from "@opencall/types";
+import { defineError, type OperationModule } from "@opencall/types";
 import type { ModuleEntry } from "../src/registry.ts";
 
 // ── Fixture modules (simulating pre-imported operation files) ────────────
@@ -225,6 +225,23 @@ describe("buildRegistryFromModules", () => {
     expect(JSON.parse(json).operations).toEqual([]);
   });
 
+  test("collects declared errors from the module and meta", () => {
+    const OutOfStockError = defineError({
+      code: "OUT_OF_STOCK",
+      httpStatus: 200,
+      message: "Out of stock",
+      retryable: false,
+    });
+    const { registry, modules } = buildRegistryFromModules([
+      {
+        module: { ...greetingModule, errors: [OutOfStockError] },
+        meta: { op: "v1:orders.place", errors: "PAYMENT_DECLINED, OUT_OF_STOCK" },
+      },
+    ]);
+    expect(registry.operations[0]?.errors).toEqual(["OUT_OF_STOCK", "PAYMENT_DECLINED"]);
+    expect(modules.get("v1:orders.place")?.errors).toEqual([OutOfStockError]);
+  });
+
   test("defaults unset meta fields", () => {
     const { registry } = buildRegistryFromModules([
       {
@@ -283,6 +300,7 @@ describe("buildRegistryFromModules", () => {
           flags: "sideEffecting deprecated",
           sunset: "2025-01-01",
           replacement: "v1:greeting.goodbye",
+          errors: ["FAREWELL_REFUSED"],
           cache: "none",
           idempotency: {
             supported: true,
@@ -138,6 +138,14 @@ describe("buildRegistry", () => {
     expect(r1.etag).toBe(r2.etag);
   });
 
+  test("collects declared error codes from @errors and the errors export", async () => {
+    const { registry } = await buildRegistry({ opsDir: fixturesDir });
+    const farewell = registry.operations.find((e) => e.op === "v1:greeting.farewell");
+    const hello = registry.operations.find((e) => e.op === "v1:greeting.hello");
+    expect(farewell?.errors).toEqual(["FAREWELL_REFUSED", "NAME_UNKNOWN"]);
+    expect(hello).not.toHaveProperty("errors");
+  });
+
   test("modules contain working handlers", async () => {
     const { modules } = await buildRegistry({ opsDir: fixturesDir });
     const hello = modules.get("v1:greeting.hello");
@@ -0,0 +1,194 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createDispatcher,
+  createFetchHandler,
+  createStreamSessionManager,
+  type Authenticator,
+  type OperationModule,
+  type StreamDescriptor,
+  type StreamPolicy,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const positionFrame = z.object({ lat: z.number(), lon: z.number() });
+
+async function* positions(count: number, delayMs = 0, bad?: number): AsyncIterable<unknown> {
+  for (let i = 0; i < count; i++) {
+    if (delayMs) await sleep(delayMs);
+    yield i === bad ? { lat: "north" } : { lat: i, lon: i * 2 };
+  }
+}
+
+const trackModule: OperationModule = {
+  args: z.object({ count: z.number(), delayMs: z.number().optional(), bad: z.number().optional() }),
+  result: z.unknown(),
+  frameSchema: positionFrame,
+  handler: async (input: unknown) => {
+    const { count, delayMs, bad } = input as { count: number; delayMs?: number; bad?: number };
+    return { state: "streaming" as const, frames: positions(count, delayMs, bad) };
+  },
+};
+
+function buildTrack(stream: Partial<StreamPolicy>) {
+  return buildRegistryFromModules([
+    {
+      module: trackModule,
+      meta: {
+        op: "v1:device.track",
+        execution: "stream",
+        stream: { supportedTransports: ["sse"], supportedEncodings: ["json"], ttlSeconds: 60, ...stream },
+      },
+    },
+  ]);
+}
+
+const built = buildTrack({ frameIntegrity: true });
+
+interface SseEvent {
+  event: string;
+  id?: string;
+  data: any;
+}
+
+function parseSse(text: string): SseEvent[] {
+  return text
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const fields = Object.fromEntries(
+        block.split("\n").map((line) => [line.slice(0, line.indexOf(":")), line.slice(line.indexOf(":") + 2)]),
+      );
+      return { event: fields.event, id: fields.id, data: JSON.parse(fields.data) };
+    });
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return `sha256:${Buffer.from(digest).toString("hex")}`;
+}
+
+function call(args: unknown, headers?: Record<string, string>): Request {
+  return new Request("http://localhost/call", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({ op: "v1:device.track", args }),
+  });
+}
+
+async function open(
+  handle: (req: Request) => Promise<Response>,
+  args: unknown,
+): Promise<StreamDescriptor> {
+  const res = await handle(call(args));
+  expect(res.status).toBe(202);
+  const body = (await res.json()) as { state: string; stream: StreamDescriptor };
+  expect(body.state).toBe("streaming");
+  return body.stream;
+}
+
+// ── Dispatch ─────────────────────────────────────────────────────────────
+
+describe("createDispatcher stream operations", () => {
+  test("allocates a session and fills in the stream descriptor", async () => {
+    const streams = createStreamSessionManager();
+    const dispatch = createDispatcher({ ...built, streams });
+    const res = await dispatch({ op: "v1:device.track", args: { count: 1 } });
+
+    expect(res.status).toBe(202);
+    const stream = res.body.stream!;
+    expect(stream.transport).toBe("sse");
+    expect(stream.encoding).toBe("json");
+    expect(stream.location).toBe(`/streams/${stream.sessionId}`);
+    expect(stream.expiresAt).toBeGreaterThan(Date.now() / 1000 + 50);
+    expect(stream.expiresAt).toBeLessThanOrEqual(Date.now() / 1000 + 60);
+    expect(streams.get(stream.sessionId)?.frameIntegrity).toBe(true);
+  });
+
+  test("fails with 500 when the policy allows no server transport", async () => {
+    const dispatch = createDispatcher({
+      ...buildTrack({ supportedTransports: ["wss"] }),
+      streams: createStreamSessionManager(),
+    });
+    const res = await dispatch({ op: "v1:device.track", args: { count: 1 } });
+    expect(res.status).toBe(500);
+  });
+
+  test("fails with 500 when no stream manager is configured", async () => {
+    const dispatch = createDispatcher(built);
+    const res = await dispatch({ op: "v1:device.track", args: { count: 1 } });
+    expect(res.status).toBe(500);
+  });
+});
+
+// ── SSE transport ────────────────────────────────────────────────────────
+
+describe("GET /streams/{sessionId}", () => {
+  test("serves validated frames with checksums, then ends", async () => {
+    const handle = createFetchHandler(built);
+    const stream = await open(handle, { count: 3 });
+
+    const res = await handle(new Request(`http://localhost${stream.location}`));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+
+    const events = parseSse(await res.text());
+    expect(events.map((e) => e.event)).toEqual(["frame", "frame", "frame", "end"]);
+    expect(events[1]).toMatchObject({ id: "1", data: { seq: 1, frame: { lat: 1, lon: 2 } } });
+    expect(events[1]!.data.checksum).toBe(await sha256(JSON.stringify({ lat: 1, lon: 2 })));
+    expect(events[3]!.data).toEqual({ reason: "complete" });
+  });
+
+  test("omits checksums without frameIntegrity", async () => {
+    const handle = createFetchHandler(buildTrack({}));
+    const stream = await open(handle, { count: 1 });
+    const events = parseSse(await (await handle(new Request(`http://localhost${stream.location}`))).text());
+    expect(events[0]!.data).toEqual({ seq: 0, frame: { lat: 0, lon: 0 } });
+  });
+
+  test("stops with an error event at the first invalid frame", async () => {
+    const handle = createFetchHandler(built);
+    const stream = await open(handle, { count: 3, bad: 1 });
+
+    const events = parseSse(await (await handle(new Request(`http://localhost${stream.location}`))).text());
+    expect(events.map((e) => e.event)).toEqual(["frame", "error"]);
+    expect(events[1]!.data.code).toBe("FRAME_VALIDATION_FAILED");
+    expect(events[1]!.data.cause.issues[0].path).toBe("lat");
+  });
+
+  test("closes the stream when the session expires", async () => {
+    const handle = createFetchHandler(buildTrack({ ttlSeconds: 1 }));
+    const stream = await open(handle, { count: 100, delayMs: 400 });
+
+    const events = parseSse(await (await handle(new Request(`http://localhost${stream.location}`))).text());
+    expect(events.at(-1)).toEqual({ event: "end", id: undefined, data: { reason: "expired" } });
+    expect(events.length).toBeLessThan(5);
+  });
+
+  test("a session can only be subscribed to once", async () => {
+    const handle = createFetchHandler(built);
+    const stream = await open(handle, { count: 1 });
+    const url = `http://localhost${stream.location}`;
+
+    await (await handle(new Request(url))).text();
+    expect((await handle(new Request(url))).status).toBe(404);
+  });
+
+  test("with an authenticator, only the opening subject can subscribe", async () => {
+    const authenticator: Authenticator = {
+      authenticate: async ({ credential }) =>
+        credential ? { sub: credential, scopes: [] } : undefined,
+    };
+    const handle = createFetchHandler({ ...built, authenticator });
+    const res = await handle(call({ count: 1 }, { Authorization: "Bearer alice" }));
+    const { stream } = (await res.json()) as { stream: StreamDescriptor };
+    const url = `http://localhost${stream.location}`;
+
+    expect((await handle(new Request(url, { headers: { Authorization: "Bearer bob" } }))).status).toBe(404);
+    expect((await handle(new Request(url, { headers: { Authorization: "Bearer alice" } }))).status).toBe(200);
+  });
+});
@@ -0,0 +1,127 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createDispatcher,
+  createFetchHandler,
+  createMemoryJobStore,
+  type ModuleEntry,
+  type OperationModule,
+  type SyncTimeoutPolicy,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const slowModule: OperationModule = {
+  args: z.object({ delayMs: z.number() }),
+  result: z.object({ done: z.boolean() }),
+  handler: async (input: unknown) => {
+    await sleep((input as { delayMs: number }).delayMs);
+    return { state: "complete" as const, result: { done: true } };
+  },
+};
+
+function slowEntry(op: string, onTimeout: SyncTimeoutPolicy): ModuleEntry {
+  return { module: slowModule, meta: { op, execution: "sync", timeout: 20, onTimeout } };
+}
+
+const built = buildRegistryFromModules([
+  slowEntry("v1:slow.fail", "fail"),
+  slowEntry("v1:slow.retry", "retry"),
+  slowEntry("v1:slow.escalate", "escalate"),
+]);
+
+const REQUEST_ID = "550e8400-e29b-41d4-a716-446655440000";
+
+// ── runWithSyncPolicy via the dispatcher ─────────────────────────────────
+
+describe("createDispatcher sync timeouts", () => {
+  const dispatch = createDispatcher(built);
+
+  test("returns the result when the handler finishes within maxMs", async () => {
+    const res = await dispatch({ op: "v1:slow.fail", args: { delayMs: 0 } });
+    expect(res.status).toBe(200);
+    expect(res.body.result).toEqual({ done: true });
+  });
+
+  test("fail: returns 504 OPERATION_TIMEOUT after maxMs", async () => {
+    const res = await dispatch({ op: "v1:slow.fail", args: { delayMs: 200 }, ctx: { requestId: REQUEST_ID } });
+    expect(res.status).toBe(504);
+    expect(res.body.requestId).toBe(REQUEST_ID);
+    expect(res.body.error?.code).toBe("OPERATION_TIMEOUT");
+    expect(res.body.error?.cause).toEqual({ op: "v1:slow.fail", timeoutMs: 20 });
+  });
+
+  test("honors a shorter ctx.timeoutMs from the caller", async () => {
+    const started = Date.now();
+    const res = await dispatch({ op: "v1:slow.fail", args: { delayMs: 200 }, ctx: { timeoutMs: 5 } });
+    expect(res.body.error?.cause).toEqual({ op: "v1:slow.fail", timeoutMs: 5 });
+    expect(Date.now() - started).toBeLessThan(200);
+  });
+
+  test("retry: returns pending with retryAfterMs", async () => {
+    const res = await dispatch({ op: "v1:slow.retry", args: { delayMs: 200 } });
+    expect(res.status).toBe(202);
+    expect(res.body.state).toBe("pending");
+    expect(res.body.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  test("escalate: falls back to fail without a job store", async () => {
+    const res = await dispatch({ op: "v1:slow.escalate", args: { delayMs: 200 } });
+    expect(res.status).toBe(504);
+  });
+
+  test("escalate: returns accepted and finishes the handler in the background", async () => {
+    const jobs = createMemoryJobStore();
+    const escalating = createDispatcher({ ...built, jobs });
+    const res = await escalating({
+      op: "v1:slow.escalate",
+      args: { delayMs: 60 },
+      ctx: { requestId: REQUEST_ID },
+    });
+    expect(res.status).toBe(202);
+    expect(res.body.state).toBe("accepted");
+    expect(res.body.location?.uri).toBe(`/ops/${REQUEST_ID}`);
+
+    expect((await jobs.get(REQUEST_ID))?.state).toBe("pending");
+    await sleep(100);
+    const job = await jobs.get(REQUEST_ID);
+    expect(job?.state).toBe("complete");
+    expect(job?.result?.body.result).toEqual({ done: true });
+  });
+});
+
+// ── GET /ops/{requestId} ─────────────────────────────────────────────────
+
+describe("createFetchHandler job status", () => {
+  const handle = createFetchHandler(built);
+  const BASE = "https://api.example.com";
+
+  test("serves pending and then complete status for an escalated call", async () => {
+    const accepted = await handle(
+      new Request(`${BASE}/call`, {
+        method: "POST",
+        body: JSON.stringify({ op: "v1:slow.escalate", args: { delayMs: 60 } }),
+      }),
+    );
+    expect(accepted.status).toBe(202);
+    const { location } = await accepted.json();
+
+    const pending = await handle(new Request(`${BASE}${location.uri}`));
+    const pendingBody = await pending.json();
+    expect(pendingBody.state).toBe("pending");
+    expect(pendingBody.location.uri).toBe(location.uri);
+
+    await sleep(100);
+    const complete = await handle(new Request(`${BASE}${location.uri}`));
+    expect(complete.status).toBe(200);
+    expect((await complete.json()).result).toEqual({ done: true });
+  });
+
+  test("returns 404 for unknown jobs", async () => {
+    const res = await handle(new Request(`${BASE}/ops/${REQUEST_ID}`));
+    expect(res.status).toBe(404);
+  });
+});
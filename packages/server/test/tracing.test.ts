@@ -0,0 +1,161 @@
+import { test, expect, describe } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createDispatcher,
+  createMemoryTracer,
+  defineError,
+  formatTraceparent,
+  parseTraceparent,
+  REDACTED,
+  SpanStatusCode,
+  type HandlerContext,
+  type OperationModule,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const AccountLockedError = defineError({
+  code: "ACCOUNT_LOCKED",
+  httpStatus: 200,
+  message: "Account is locked",
+  retryable: false,
+});
+
+const transferModule: OperationModule = {
+  args: z.object({
+    accountNumber: z.string(),
+    amount: z.number(),
+    memo: z.object({ ref: z.string() }).optional(),
+  }),
+  result: z.object({ ok: z.boolean() }),
+  handler: async (input: unknown) => {
+    const { accountNumber } = input as { accountNumber: string };
+    if (accountNumber === "locked") throw new AccountLockedError();
+    if (accountNumber === "crash") throw new Error("boom");
+    return { state: "complete" as const, result: { ok: true } };
+  },
+};
+
+let handlerCtx: HandlerContext | undefined;
+
+const plainModule: OperationModule = {
+  args: z.object({}),
+  result: z.unknown(),
+  handler: async (_input: unknown, ctx: HandlerContext) => {
+    handlerCtx = ctx;
+    return { state: "complete" as const, result: {} };
+  },
+};
+
+const built = buildRegistryFromModules([
+  {
+    module: transferModule,
+    meta: {
+      op: "v1:payments.transfer",
+      telemetry: {
+        spanName: "payments.transfer",
+        attributes: ["amount", "args.accountNumber", "memo.ref"],
+        sensitive: ["accountNumber"],
+      },
+    },
+  },
+  { module: plainModule, meta: { op: "v1:health.check" } },
+]);
+
+const REQUEST_ID = "550e8400-e29b-41d4-a716-446655440000";
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_SPAN_ID = "00f067aa0ba902b7";
+
+// ── parseTraceparent ─────────────────────────────────────────────────────
+
+describe("parseTraceparent", () => {
+  test("parses a valid W3C traceparent", () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_SPAN_ID}-01`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: PARENT_SPAN_ID,
+      traceFlags: 1,
+    });
+  });
+
+  test("rejects malformed values and all-zero ids", () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent("not-a-traceparent")).toBeUndefined();
+    expect(parseTraceparent(`00-${"0".repeat(32)}-${PARENT_SPAN_ID}-01`)).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_SPAN_ID}-01`)).toBeUndefined();
+  });
+
+  test("round-trips through formatTraceparent", () => {
+    const traceparent = `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`;
+    expect(formatTraceparent(parseTraceparent(traceparent)!)).toBe(traceparent);
+  });
+});
+
+// ── Dispatcher tracing ───────────────────────────────────────────────────
+
+describe("createDispatcher tracer", () => {
+  test("starts a span named by spanName that continues the caller's trace", async () => {
+    const tracer = createMemoryTracer();
+    const dispatch = createDispatcher({ ...built, tracer });
+    await dispatch({
+      op: "v1:payments.transfer",
+      args: { accountNumber: "12-3456", amount: 250, memo: { ref: "rent" } },
+      ctx: { requestId: REQUEST_ID, traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01` },
+    });
+
+    expect(tracer.spans).toHaveLength(1);
+    const [span] = tracer.spans;
+    expect(span!.name).toBe("payments.transfer");
+    expect(span!.traceId).toBe(TRACE_ID);
+    expect(span!.parentSpanId).toBe(PARENT_SPAN_ID);
+    expect(span!.ended).toBe(true);
+    expect(span!.status.code).toBe(SpanStatusCode.OK);
+    expect(span!.attributes).toEqual({
+      "opencall.op": "v1:payments.transfer",
+      "opencall.request_id": REQUEST_ID,
+      "args.amount": 250,
+      "args.accountNumber": REDACTED,
+      "args.memo.ref": "rent",
+      "opencall.status": 200,
+      "opencall.state": "complete",
+    });
+  });
+
+  test("starts a new trace without a traceparent and names the span by op without a policy", async () => {
+    const tracer = createMemoryTracer();
+    await createDispatcher({ ...built, tracer })({ op: "v1:health.check", args: {} });
+
+    const [span] = tracer.spans;
+    expect(span!.name).toBe("v1:health.check");
+    expect(span!.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(span!.parentSpanId).toBeUndefined();
+  });
+
+  test("passes the dispatcher span to the handler as ctx.traceparent", async () => {
+    const tracer = createMemoryTracer();
+    await createDispatcher({ ...built, tracer })({
+      op: "v1:health.check",
+      args: {},
+      ctx: { traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01` },
+    });
+
+    const [span] = tracer.spans;
+    expect(handlerCtx?.traceparent).toBe(`00-${TRACE_ID}-${span!.spanId}-01`);
+    expect(span!.spanId).not.toBe(PARENT_SPAN_ID);
+  });
+
+  test("sets ERROR status and the error code from the DispatchResult", async () => {
+    const tracer = createMemoryTracer();
+    const dispatch = createDispatcher({ ...built, tracer });
+    await dispatch({ op: "v1:payments.transfer", args: { accountNumber: "locked", amount: 1 } });
+    await dispatch({ op: "v1:payments.transfer", args: { accountNumber: "crash", amount: 1 } });
+    await dispatch({ op: "v1:payments.transfer", args: { amount: "1" } });
+
+    expect(tracer.spans.map((s) => [s.status, s.attributes["opencall.error_code"]])).toEqual([
+      [{ code: SpanStatusCode.ERROR, message: "ACCOUNT_LOCKED" }, "ACCOUNT_LOCKED"],
+      [{ code: SpanStatusCode.ERROR, message: "INTERNAL_ERROR" }, "INTERNAL_ERROR"],
+      [{ code: SpanStatusCode.ERROR, message: "SCHEMA_VALIDATION_FAILED" }, "SCHEMA_VALIDATION_FAILED"],
+    ]);
+    expect(tracer.spans[0]!.attributes["opencall.status"]).toBe(200);
+  });
+});
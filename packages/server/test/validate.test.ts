@@ -362,6 +362,22 @@ describe("safeHandlerCall", () => {
     expect(res.body.retryAfterMs).toBe(60_000)
   })
 
+  test("formats marked errors that lack localizedMessage", async () => {
+    class LegacyError extends Error {
+      static readonly __opencall = true
+      readonly code = "LEGACY"
+      readonly httpStatus = 409
+      readonly retryable = false
+      readonly category = "domain"
+    }
+    const handler = async () => {
+      throw new LegacyError("From an older @opencall/types")
+    }
+    const res = await safeHandlerCall(handler, [], "00000000-0000-0000-0000-000000000000", undefined, "fr")
+    expect(res.status).toBe(409)
+    expect(res.body.error).toEqual({ code: "LEGACY", message: "From an older @opencall/types" })
+  })
+
   test("safeHandlerCall converts a postgres connection error into HTTP 503", async () => {
     const handler = async () => {
       throw new Error("connect ECONNREFUSED 127.0.0.1:5432")
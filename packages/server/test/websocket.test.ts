@@ -0,0 +1,220 @@
+import { test, expect, describe, afterEach } from "bun:test";
+import { z } from "zod/v4";
+import {
+  buildRegistryFromModules,
+  createFetchHandler,
+  createStreamSessionManager,
+  createWebSocketTransport,
+  type OperationModule,
+  type StreamDescriptor,
+  type StreamPolicy,
+} from "../src/index.ts";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────
+
+const cursorFrame = z.object({ user: z.string(), x: z.number(), y: z.number() });
+const cursorMove = z.object({ x: z.number(), y: z.number() });
+
+/** Echo each inbound cursor move back as a frame, stopping after `moves` */
+const cursorsModule: OperationModule = {
+  args: z.object({ user: z.string(), moves: z.number() }),
+  result: z.unknown(),
+  frameSchema: cursorFrame,
+  inboundSchema: cursorMove,
+  handler: async (input: unknown) => {
+    const { user, moves } = input as { user: string; moves: number };
+    return {
+      state: "streaming" as const,
+      frames: async function* (inbound: AsyncIterable<unknown>) {
+        let seen = 0;
+        for await (const move of inbound) {
+          const { x, y } = move as { x: number; y: number };
+          yield x < 0 ? { user, x: "off-canvas", y } : { user, x, y };
+          if (++seen === moves) return;
+        }
+      },
+    };
+  },
+};
+
+const tickerModule: OperationModule = {
+  args: z.object({}),
+  result: z.unknown(),
+  handler: async () => ({
+    state: "streaming" as const,
+    frames: (async function* () {
+      for (let i = 0; ; i++) {
+        yield { tick: i };
+        await new Promise((resolve) => setTimeout(resolve, 200));
+      }
+    })(),
+  }),
+};
+
+/** Streams a frame that JSON cannot represent */
+const balanceModule: OperationModule = {
+  args: z.object({}),
+  result: z.unknown(),
+  handler: async () => ({
+    state: "streaming" as const,
+    frames: (async function* () {
+      yield { balance: 10n };
+    })(),
+  }),
+};
+
+function build(stream: Partial<StreamPolicy> = {}) {
+  const policy = { supportedTransports: ["websocket"], supportedEncodings: ["json"], ttlSeconds: 60, ...stream };
+  return buildRegistryFromModules([
+    { module: cursorsModule, meta: { op: "v1:doc.cursors", execution: "stream", stream: policy } },
+    { module: tickerModule, meta: { op: "v1:ticker.watch", execution: "stream", stream: policy } },
+    { module: balanceModule, meta: { op: "v1:account.balance", execution: "stream", stream: policy } },
+  ]);
+}
+
+let server: ReturnType<typeof Bun.serve> | undefined;
+
+afterEach(() => {
+  server?.stop(true);
+  server = undefined;
+});
+
+function serve(built: ReturnType<typeof build>) {
+  const streams = createStreamSessionManager();
+  const handle = createFetchHandler({ ...built, streams });
+  const sockets = createWebSocketTransport({ streams });
+  server = Bun.serve({
+    port: 0,
+    fetch: (req, srv) =>
+      req.headers.get("Upgrade") === "websocket" ? sockets.upgrade(req, srv) : handle(req),
+    websocket: sockets.websocket,
+  });
+  return { base: `http://localhost:${server.port}`, ws: `ws://localhost:${server.port}` };
+}
+
+async function open(base: string, op: string, args: unknown): Promise<StreamDescriptor> {
+  const res = await fetch(`${base}/call`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ op, args }),
+  });
+  const body = (await res.json()) as { stream: StreamDescriptor };
+  return body.stream;
+}
+
+/** Connect and collect every message until the server closes the socket */
+function connect(url: string, send: unknown[] = []): Promise<{ messages: any[]; code: number }> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const messages: any[] = [];
+    socket.onopen = () => send.forEach((m) => socket.send(typeof m === "string" ? m : JSON.stringify(m)));
+    socket.onmessage = (e) => messages.push(JSON.parse(String(e.data)));
+    socket.onclose = (e) => resolve({ messages, code: e.code });
+    socket.onerror = () => reject(new Error("socket error"));
+  });
+}
+
+// ── WebSocket transport ──────────────────────────────────────────────────
+
+describe("createWebSocketTransport", () => {
+  test("bidirectional frames get a websocket descriptor with a credential", async () => {
+    const { base } = serve(build());
+    const stream = await open(base, "v1:doc.cursors", { user: "ada", moves: 1 });
+
+    expect(stream.transport).toBe("websocket");
+    expect(stream.location).toBe(`/streams/${stream.sessionId}`);
+    expect(stream.auth?.credentialType).toBe("bearer");
+    expect(stream.auth?.credential).toBeTruthy();
+  });
+
+  test("bidirectional frames fail when the policy does not allow websocket", async () => {
+    const { base } = serve(build({ supportedTransports: ["sse"] }));
+    const res = await fetch(`${base}/call`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ op: "v1:doc.cursors", args: { user: "ada", moves: 1 } }),
+    });
+    expect(res.status).toBe(500);
+  });
+
+  test("exchanges validated inbound messages and frames, then closes", async () => {
+    const { base, ws } = serve(build());
+    const stream = await open(base, "v1:doc.cursors", { user: "ada", moves: 2 });
+
+    const { messages, code } = await connect(
+      `${ws}${stream.location}?credential=${stream.auth!.credential}`,
+      [{ x: 1, y: 2 }, { x: 3, y: 4 }],
+    );
+    expect(messages).toEqual([
+      { event: "frame", id: 0, data: { seq: 0, frame: { user: "ada", x: 1, y: 2 } } },
+      { event: "frame", id: 1, data: { seq: 1, frame: { user: "ada", x: 3, y: 4 } } },
+      { event: "end", data: { reason: "complete" } },
+    ]);
+    expect(code).toBe(1000);
+  });
+
+  test("closes with 1008 on an inbound message that fails inboundSchema", async () => {
+    const { base, ws } = serve(build());
+    const stream = await open(base, "v1:doc.cursors", { user: "ada", moves: 2 });
+
+    const { messages, code } = await connect(
+      `${ws}${stream.location}?credential=${stream.auth!.credential}`,
+      [{ x: "left" }],
+    );
+    expect(messages.at(-1).data.code).toBe("INBOUND_VALIDATION_FAILED");
+    expect(code).toBe(1008);
+  });
+
+  test("closes with 1011 on an outbound frame that fails frameSchema", async () => {
+    const { base, ws } = serve(build());
+    const stream = await open(base, "v1:doc.cursors", { user: "ada", moves: 2 });
+
+    const { messages, code } = await connect(
+      `${ws}${stream.location}?credential=${stream.auth!.credential}`,
+      [{ x: -1, y: 0 }],
+    );
+    expect(messages).toHaveLength(1);
+    expect(messages[0].data.code).toBe("FRAME_VALIDATION_FAILED");
+    expect(code).toBe(1011);
+  });
+
+  test("closes with 1011 on a frame that cannot be serialized", async () => {
+    const { base, ws } = serve(build());
+    const stream = await open(base, "v1:account.balance", {});
+
+    const { messages, code } = await connect(`${ws}${stream.location}?credential=${stream.auth!.credential}`);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ event: "error", data: { code: "INTERNAL_ERROR" } });
+    expect(code).toBe(1011);
+  });
+
+  test("closes the session at expiresAt", async () => {
+    const { base, ws } = serve(build({ ttlSeconds: 1 }));
+    const stream = await open(base, "v1:ticker.watch", {});
+    expect(stream.transport).toBe("websocket");
+
+    const { messages, code } = await connect(`${ws}${stream.location}?credential=${stream.auth!.credential}`);
+    expect(messages.at(-1)).toEqual({ event: "end", data: { reason: "expired" } });
+    expect(messages.length).toBeLessThan(8);
+    expect(code).toBe(1000);
+  });
+
+  test("rejects an upgrade without the descriptor credential", async () => {
+    const { base } = serve(build());
+    const stream = await open(base, "v1:doc.cursors", { user: "ada", moves: 1 });
+
+    const res = await fetch(`${base}${stream.location}?credential=wrong`, {
+      headers: { Upgrade: "websocket", Connection: "Upgrade" },
+    });
+    expect(res.status).toBe(401);
+  });
+
+  test("plain GET of a websocket session is 426", async () => {
+    const { base } = serve(build());
+    const stream = await open(base, "v1:doc.cursors", { user: "ada", moves: 1 });
+
+    const res = await fetch(`${base}${stream.location}`);
+    expect(res.status).toBe(426);
+    expect(res.headers.get("Upgrade")).toBe("websocket");
+  });
+});
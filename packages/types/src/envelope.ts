@@ -75,3 +75,22 @@ export interface ResponseEnvelope {
   meta?: Record<string, unknown>;
   stream?: StreamDescriptor;
 }
+
+/** `meta.deprecation` on every response from a deprecated operation */
+export interface DeprecationNotice {
+  /** ISO date after which the operation is removed (410 OP_REMOVED) */
+  sunset?: string;
+  /** The operation to call instead */
+  replacement?: string;
+}
+
+/** One link of a chunked result, served at GET /ops/{requestId}/chunks */
+export interface ChunkResponse {
+  state: "pending" | "complete" | "error";
+  chunk: { checksum: string; checksumPrevious: string | null };
+  /** Base64-encoded chunk bytes */
+  data: string;
+  /** Opaque cursor for the next chunk; absent on the final chunk */
+  cursor?: string;
+  error?: { code: string; message: string; cause?: unknown };
+}
@@ -1,3 +1,4 @@
+import type { z } from "zod/v4";
 import type { ResponseEnvelope } from "./envelope.js";
 
 export type ErrorCategory = "domain" | "protocol" | "service";
@@ -6,10 +7,19 @@ export interface OpenCallErrorMeta {
   code: string;
   httpStatus: number;
   message: string;
+  /** Translations of `message` keyed by BCP-47 language tag, e.g. `{ fr: "...", "pt-BR": "..." }` */
+  messages?: Record<string, string>;
   retryable: boolean;
   category?: ErrorCategory;
+  /** Schema for the error's `cause`; types the constructor and is published in the error catalog */
+  cause?: z.ZodType;
 }
 
+/** The constructor argument of an error whose metadata declares a `cause` schema */
+export type ErrorCause<Meta extends OpenCallErrorMeta> = Meta["cause"] extends z.ZodType
+  ? z.input<Meta["cause"]>
+  : unknown;
+
 export interface SerializedOpenCallError {
   code: string;
   category: ErrorCategory;
@@ -19,15 +29,25 @@ export interface SerializedOpenCallError {
   cause?: unknown;
 }
 
-export interface OpenCallErrorConstructor {
+/** Constructor arguments for a `Cause`: the cause is required unless it accepts undefined */
+export type ErrorCauseArgs<Cause> = undefined extends Cause ? [cause?: Cause] : [cause: Cause];
+
+/**
+ * An error class made by `defineError`. `Cause` defaults to `never` so that
+ * classes with typed causes still fit untyped lists such as
+ * `OperationModule.errors`.
+ */
+export interface OpenCallErrorConstructor<Cause = never> {
   readonly __opencall: true;
   readonly __catalog_exclude?: true;
   readonly code: string;
   readonly httpStatus: number;
   readonly defaultMessage: string;
+  readonly messages: Readonly<Record<string, string>>;
   readonly retryable: boolean;
   readonly category: ErrorCategory;
-  new (cause?: unknown): OpenCallErrorInstance;
+  readonly causeSchema?: z.ZodType;
+  new (...args: ErrorCauseArgs<Cause>): OpenCallErrorInstance;
 }
 
 export interface OpenCallErrorInstance extends Error {
@@ -35,6 +55,8 @@ export interface OpenCallErrorInstance extends Error {
   readonly httpStatus: number;
   readonly retryable: boolean;
   readonly category: ErrorCategory;
+  /** The message translated for `locale`, falling back to the English message */
+  localizedMessage(locale?: string): string;
   toJSON(): SerializedOpenCallError;
   toLog(): SerializedOpenCallError & { stack?: string };
 }
@@ -43,39 +65,108 @@ export interface ErrorEntry {
   code: string;
   httpStatus: number;
   message: string;
+  /** Translations of `message` keyed by BCP-47 language tag */
+  messages?: Record<string, string>;
   retryable: boolean;
   category: ErrorCategory;
+  /** JSON Schema of the error's `cause`, when the error declares one */
+  causeSchema?: Record<string, unknown>;
 }
 
 export interface ErrorsResponse {
   errors: ErrorEntry[];
 }
 
+/**
+ * Find the best of `available` language tags for `locale` by BCP-47 lookup
+ * (RFC 4647 §3.4): try the full tag, then drop trailing subtags one at a
+ * time, so `zh-Hant-TW` tries `zh-Hant-TW`, `zh-Hant`, then `zh`.
+ * Matching is case-insensitive; returns the tag as it appears in `available`.
+ */
+export function matchLocale(locale: string | undefined, available: Iterable<string>): string | undefined {
+  if (!locale) return undefined;
+  const tags = new Map<string, string>();
+  for (const tag of available) tags.set(tag.toLowerCase(), tag);
+
+  const subtags = locale.toLowerCase().split(/[-_]/);
+  while (subtags.length > 0) {
+    const match = tags.get(subtags.join("-"));
+    if (match !== undefined) return match;
+    subtags.pop();
+    // A single-character subtag introduces an extension and never stands alone
+    if (subtags.at(-1)?.length === 1) subtags.pop();
+  }
+  return undefined;
+}
+
 function serializeCause(cause: unknown): unknown {
   return isOpenCallError(cause) ? cause.toJSON() : cause;
 }
 
-export function defineError(meta: OpenCallErrorMeta): OpenCallErrorConstructor {
+function isProduction(): boolean {
+  const env = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env;
+  return env?.["NODE_ENV"] === "production";
+}
+
+/**
+ * Define an OpenCALL error class from its metadata. With a `cause` schema the
+ * constructor's argument is typed from it, and outside production
+ * (`NODE_ENV !== "production"`) each cause is validated when the error is
+ * constructed, throwing a TypeError that lists the schema issues:
+ *
+ * ```
+ * const ItemNotFoundError = defineError({
+ *   code: "ITEM_NOT_FOUND",
+ *   httpStatus: 200,
+ *   message: "Item not found",
+ *   retryable: false,
+ *   cause: z.object({ itemId: z.string() }),
+ * })
+ *
+ * throw new ItemNotFoundError({ itemId: "123" })
+ * ```
+ */
+export function defineError<Meta extends OpenCallErrorMeta>(
+  meta: Meta,
+): OpenCallErrorConstructor<ErrorCause<Meta>> {
   const category = meta.category ?? "domain";
+  const messages = Object.freeze({ ...meta.messages });
+  const causeSchema = meta.cause;
 
   class SpecificError extends Error implements OpenCallErrorInstance {
     static readonly __opencall = true as const;
     static readonly code = meta.code;
     static readonly httpStatus = meta.httpStatus;
     static readonly defaultMessage = meta.message;
+    static readonly messages = messages;
     static readonly retryable = meta.retryable;
     static readonly category = category;
+    static readonly causeSchema = causeSchema;
 
     readonly code = meta.code;
     readonly httpStatus = meta.httpStatus;
     readonly retryable = meta.retryable;
     readonly category = category;
 
-    constructor(cause?: unknown) {
+    constructor(cause?: ErrorCause<Meta>) {
+      if (causeSchema && !isProduction()) {
+        const parsed = causeSchema.safeParse(cause);
+        if (!parsed.success) {
+          const issues = parsed.error.issues
+            .map((issue) => `${issue.path.map(String).join(".") || "cause"}: ${issue.message}`)
+            .join("; ");
+          throw new TypeError(`Invalid cause for ${meta.code}: ${issues}`);
+        }
+      }
       super(meta.message, cause !== undefined ? { cause } : undefined);
       this.name = meta.code;
     }
 
+    localizedMessage(locale?: string): string {
+      const tag = matchLocale(locale, Object.keys(messages));
+      return tag !== undefined ? messages[tag]! : this.message;
+    }
+
     toJSON(): SerializedOpenCallError {
       return {
         code: this.code,
@@ -92,7 +183,7 @@ export function defineError(meta: OpenCallErrorMeta): OpenCallErrorConstructor {
     }
   }
 
-  return SpecificError;
+  return SpecificError as OpenCallErrorConstructor<ErrorCause<Meta>>;
 }
 
 export function isOpenCallError(value: unknown): value is OpenCallErrorInstance {
@@ -150,6 +241,38 @@ export const SchemaValidationError = defineError({
   category: "protocol",
 });
 
+export const PayloadTooLargeError = defineError({
+  code: "PAYLOAD_TOO_LARGE",
+  httpStatus: 413,
+  message: "Request body exceeds the maximum allowed size.",
+  retryable: false,
+  category: "protocol",
+});
+
+export const RateLimitedError = defineError({
+  code: "RATE_LIMITED",
+  httpStatus: 429,
+  message: "Rate limit exceeded for this operation; retry after retryAfterMs.",
+  retryable: true,
+  category: "protocol",
+});
+
+export const CancelledError = defineError({
+  code: "CANCELLED",
+  httpStatus: 499,
+  message: "The call was cancelled before it completed.",
+  retryable: false,
+  category: "protocol",
+});
+
+export const RequestIdConflictError = defineError({
+  code: "REQUEST_ID_CONFLICT",
+  httpStatus: 409,
+  message: "A job with this requestId already exists.",
+  retryable: false,
+  category: "protocol",
+});
+
 export const OpNotFoundError = defineError({
   code: "OP_NOT_FOUND",
   httpStatus: 404,
@@ -182,6 +305,54 @@ export const ForbiddenError = defineError({
   category: "protocol",
 });
 
+export const IdempotencyKeyRequiredError = defineError({
+  code: "IDEMPOTENCY_KEY_REQUIRED",
+  httpStatus: 400,
+  message: "This operation requires an idempotency key.",
+  retryable: false,
+  category: "protocol",
+});
+
+export const IdempotencyConflictError = defineError({
+  code: "IDEMPOTENCY_CONFLICT",
+  httpStatus: 422,
+  message: "Idempotency key was already used with different arguments.",
+  retryable: false,
+  category: "protocol",
+});
+
+export const IdempotencyInProgressError = defineError({
+  code: "IDEMPOTENCY_IN_PROGRESS",
+  httpStatus: 409,
+  message: "A request with this idempotency key is still in progress.",
+  retryable: true,
+  category: "protocol",
+});
+
+export const MediaRequiredError = defineError({
+  code: "MEDIA_REQUIRED",
+  httpStatus: 400,
+  message: "A required media attachment is missing.",
+  retryable: false,
+  category: "protocol",
+});
+
+export const UnsupportedMediaTypeError = defineError({
+  code: "UNSUPPORTED_MEDIA_TYPE",
+  httpStatus: 415,
+  message: "Media attachment has a type the operation does not accept.",
+  retryable: false,
+  category: "protocol",
+});
+
+export const MediaTooLargeError = defineError({
+  code: "MEDIA_TOO_LARGE",
+  httpStatus: 413,
+  message: "Media attachment exceeds the maximum allowed size.",
+  retryable: false,
+  category: "protocol",
+});
+
 const BackendUnavailableErrorBase = defineError({
   code: "BACKEND_UNAVAILABLE",
   httpStatus: 503,
@@ -197,6 +368,7 @@ export class DomainError extends Error implements OpenCallErrorInstance {
   static readonly code = "DOMAIN_ERROR";
   static readonly httpStatus = 200;
   static readonly defaultMessage = "Domain error";
+  static readonly messages = {};
   static readonly retryable = false;
   static readonly category = "domain" as const;
 
@@ -211,6 +383,11 @@ export class DomainError extends Error implements OpenCallErrorInstance {
     this.code = code;
   }
 
+  /** The message is supplied per instance, so it is never translated */
+  localizedMessage(): string {
+    return this.message;
+  }
+
   toJSON(): SerializedOpenCallError {
     return {
       code: this.code,
@@ -248,6 +425,14 @@ export class BackendUnavailableError
   }
 }
 
+export const OperationTimeoutError = defineError({
+  code: "OPERATION_TIMEOUT",
+  httpStatus: 504,
+  message: "Operation did not complete within its time limit.",
+  retryable: true,
+  category: "service",
+});
+
 export const InternalError = defineError({
   code: "INTERNAL_ERROR",
   httpStatus: 500,
@@ -4,26 +4,42 @@ export {
   type ResponseState,
   type ResponseEnvelope,
   type StreamDescriptor,
+  type ChunkResponse,
+  type DeprecationNotice,
 } from "./envelope.js"
 
 export {
   AuthRequiredError,
   DomainError,
   BackendUnavailableError,
+  CancelledError,
   ForbiddenError,
+  IdempotencyConflictError,
+  IdempotencyInProgressError,
+  IdempotencyKeyRequiredError,
   InternalError,
   InvalidEnvelopeError,
+  MediaRequiredError,
+  MediaTooLargeError,
   OpNotFoundError,
   OpRemovedError,
+  OperationTimeoutError,
+  PayloadTooLargeError,
+  RateLimitedError,
+  RequestIdConflictError,
   SchemaValidationError,
+  UnsupportedMediaTypeError,
   defineError,
   domainError,
   isOpenCallError,
+  matchLocale,
   protocolError,
 } from "./errors.js"
 
 export type {
   ErrorCategory,
+  ErrorCause,
+  ErrorCauseArgs,
   ErrorEntry,
   ErrorsResponse,
   OpenCallErrorConstructor,
@@ -35,10 +51,15 @@ export type {
 export type {
   CachePolicy,
   ExecutionModel,
+  HandlerContext,
   IdempotencyPolicy,
+  Logger,
   MediaSchemaEntry,
+  OperationHandler,
   OperationResult,
   OperationModule,
+  Principal,
+  RateLimitPolicy,
   RegistryEndpoint,
   RegistryEntry,
   RegistryResponse,
@@ -47,3 +68,5 @@ export type {
   SyncTimeoutPolicy,
   TelemetryPolicy,
 } from "./types.js"
+
+export { defineOperation, type OperationDefinition } from "./operation.js"
@@ -0,0 +1,32 @@
+import type { z } from "zod/v4";
+import type { OperationHandler, OperationModule } from "./types.js";
+
+/** An operation module whose handler is typed from its `args` schema */
+export interface OperationDefinition<Args extends z.ZodType, Result extends z.ZodType>
+  extends Omit<OperationModule, "args" | "result" | "handler"> {
+  args: Args;
+  result: Result;
+  handler: OperationHandler<z.output<Args>>;
+}
+
+/**
+ * Define an operation module with its handler's arguments inferred from the
+ * `args` schema and its second parameter typed as HandlerContext:
+ *
+ * ```
+ * export const { args, result, handler } = defineOperation({
+ *   args: z.object({ orderId: z.string() }),
+ *   result: Order,
+ *   handler: async ({ orderId }, { principal, signal }) => ({
+ *     state: "complete",
+ *     result: await orders.get(orderId, principal?.sub, { signal }),
+ *   }),
+ * })
+ * ```
+ */
+export function defineOperation<Args extends z.ZodType, Result extends z.ZodType>(
+  definition: OperationDefinition<Args, Result>,
+): OperationModule & { args: Args; result: Result } {
+  // The dispatcher only invokes the handler with arguments parsed by `args`
+  return definition as unknown as OperationModule & { args: Args; result: Result };
+}
@@ -1,5 +1,6 @@
 import type { z } from "zod/v4";
 import type { StreamDescriptor } from "./envelope.js";
+import type { OpenCallErrorConstructor } from "./errors.js";
 
 export type ExecutionModel = "sync" | "async" | "stream";
 export type SyncTimeoutPolicy = "fail" | "retry" | "escalate";
@@ -32,6 +33,14 @@ export interface CachePolicy {
   tags?: string[];
 }
 
+export interface RateLimitPolicy {
+  /** Calls allowed per window, which is also the token bucket's burst capacity */
+  limit: number;
+  windowMs: number;
+  /** Whether each authenticated subject gets its own bucket, or all callers share one */
+  per: "subject" | "global";
+}
+
 export interface TelemetryPolicy {
   spanName: string;
   attributes?: string[];
@@ -61,19 +70,87 @@ export interface OperationResult {
   expiresAt?: number;
   /** Present when state === "streaming". The stream descriptor returned to the caller. */
   stream?: StreamDescriptor;
+  /**
+   * With state === "streaming", frames for the server's stream transport to
+   * deliver. The server allocates the session and fills in `stream`. A
+   * function receives the subscriber's inbound messages, which requires a
+   * bidirectional transport such as `websocket`.
+   */
+  frames?: AsyncIterable<unknown> | ((inbound: AsyncIterable<unknown>) => AsyncIterable<unknown>);
 }
 
+/** A structured logger; pino, winston and console-style adapters fit in a few lines */
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+/** The authenticated caller, as resolved by the server's Authenticator */
+export interface Principal {
+  /** Subject identifier (e.g. "user:42") */
+  sub: string;
+  /** Issuer of the credential */
+  iss?: string;
+  /** Scopes granted to the caller, matched against RegistryEntry.authScopes */
+  scopes: string[];
+  /** Any additional claims the authenticator wants to expose */
+  claims?: Record<string, unknown>;
+}
+
+/** Per-call context the dispatcher passes to a handler as its second argument */
+export interface HandlerContext {
+  requestId: string;
+  sessionId?: string;
+  parentId?: string;
+  /** BCP-47 locale requested by the caller (`ctx.locale`) */
+  locale?: string;
+  /**
+   * W3C trace context: the dispatcher's span when it has a tracer, otherwise
+   * the caller's `ctx.traceparent`
+   */
+  traceparent?: string;
+  /** The authenticated caller; undefined for anonymous calls */
+  principal?: Principal;
+  /** The call's idempotency key, from `ctx.idempotencyKey` or the policy's `keyHeader` */
+  idempotencyKey?: string;
+  /** Epoch milliseconds by which the caller expects a result, from `ctx.timeoutMs` and the SyncPolicy */
+  deadline?: number;
+  /**
+   * Aborted when the deadline passes, the caller disconnects or the job is
+   * cancelled; pass it on to fetch(), database drivers, etc.
+   */
+  signal: AbortSignal;
+  /** Logger bound to the call's op and requestId */
+  logger: Logger;
+  /** Uploaded media, keyed by media name */
+  media: Record<string, Blob>;
+}
+
+/** An operation handler; `Args` is the parsed `args` schema output */
+export type OperationHandler<Args = unknown> = (
+  args: Args,
+  ctx: HandlerContext,
+) => Promise<OperationResult>;
+
 /** Interface that each operation module must implement */
 export interface OperationModule {
   args: z.ZodType;
   result: z.ZodType;
-  handler: (args: unknown, ...rest: unknown[]) => Promise<OperationResult>;
+  handler: OperationHandler;
   /** If true, operation requires authentication; the dispatcher enforces this before calling handler. */
   requiresAuth?: boolean;
   /** If set, the operation is deprecated. Contains the sunset ISO date. */
   sunset?: string;
   /** If set, the replacement operation name after deprecation */
   replacement?: string;
+  /** Schema every stream frame must satisfy, for `@execution stream` operations */
+  frameSchema?: z.ZodType;
+  /** Schema every client-to-server message must satisfy on bidirectional streams */
+  inboundSchema?: z.ZodType;
+  /** OpenCALL errors the handler may throw; their codes are published as `RegistryEntry.errors` */
+  errors?: OpenCallErrorConstructor[];
 }
 
 /** A single entry in the operations registry */
@@ -91,6 +168,9 @@ export interface RegistryEntry {
   cache?: CachePolicy;
   telemetry?: TelemetryPolicy;
   stream?: StreamPolicy;
+  rateLimit?: RateLimitPolicy;
+  /** Codes of the OpenCALL errors the operation declares it may return */
+  errors?: string[];
   ttlSeconds?: number;
   deprecated?: boolean;
   sunset?: string;